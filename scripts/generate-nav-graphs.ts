@@ -0,0 +1,73 @@
+// Bakes the bot nav graph for every level into src/app/components/level/nav/<id>.json, so
+// bots don't have to plan every jump when a level loads. Graphs are tagged with a hash of
+// the level and physics constants and only planned again when that changes.
+//
+//   npm run nav:generate           bake any graph that's missing or out of date
+//   npm run nav:generate -- --check   just report them, failing if any need baking
+//
+// Runs before every build too, so a tweak to PHYSICS can't ship with stale graphs.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { LEVELS } from '../src/app/components/level/LevelData';
+import { INavGraphData, NavGraph } from '../src/app/components/simulation/bots/NavGraph';
+
+const NAV_DIRECTORY = path.join(process.cwd(), 'src/app/components/level/nav');
+
+// Millimetres and milliseconds are plenty
+function roundNumbers(_key: string, value: unknown) {
+  return typeof value === 'number' ? Math.round(value * 1000) / 1000 : value;
+}
+
+// One surface, node or link per line, so a re-bake diffs readably
+function formatGraph(data: INavGraphData): string {
+  const list = (items: object[]) => `[\n    ${items.map(item => JSON.stringify(item, roundNumbers)).join(',\n    ')}\n  ]`;
+  return [
+    '{',
+    `  "hash": ${JSON.stringify(data.hash)},`,
+    `  "surfaces": ${list(data.surfaces)},`,
+    `  "nodes": ${list(data.nodes)},`,
+    `  "links": ${list(data.links)}`,
+    '}',
+    ''
+  ].join('\n');
+}
+
+function main() {
+  const checkOnly = process.argv.includes('--check');
+  let stale = 0;
+
+  for (const level of LEVELS) {
+    const file = path.join(NAV_DIRECTORY, `${level.id}.json`);
+    const hash = NavGraph.getHash(level.colliders);
+    const baked = fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, 'utf8')) as INavGraphData) : null;
+
+    if (baked?.hash === hash) {
+      console.log(`${level.id}: up to date (${hash})`);
+      continue;
+    }
+
+    stale++;
+    if (checkOnly) {
+      console.log(`${level.id}: out of date (baked ${baked?.hash ?? 'never'}, now ${hash})`);
+      continue;
+    }
+
+    const start = Date.now();
+    const graph = NavGraph.build(level.colliders);
+    fs.mkdirSync(NAV_DIRECTORY, { recursive: true });
+    fs.writeFileSync(file, formatGraph(graph.toData()));
+
+    const counts = new Map<string, number>();
+    graph.links.forEach(link => counts.set(link.type, (counts.get(link.type) ?? 0) + 1));
+    const summary = [...counts].map(([type, count]) => `${count} ${type}`).join(', ');
+    console.log(`${level.id}: baked ${graph.nodes.length} nodes, ${summary} in ${Date.now() - start}ms (${hash})`);
+  }
+
+  if (checkOnly && stale > 0) {
+    console.error(`${stale} nav graph(s) need baking - run npm run nav:generate`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useEffect, useState, useRef, useMemo, Suspense } from 'react';
+import { useRouter } from 'next/navigation';
 import { Canvas, useFrame, useLoader, extend, useThree } from '@react-three/fiber';
 import { OrbitControls, useGLTF, useAnimations, PerspectiveCamera } from '@react-three/drei';
 import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
@@ -8,6 +9,7 @@ import * as THREE from 'three';
 import * as dat from 'lil-gui';
 import { EffectComposer, N8AO, Bloom } from '@react-three/postprocessing';
 import { BlendFunction } from 'postprocessing';
+import { TeamId, TEAMS } from '../simulation';
 
 // Sound Manager Class
 class SoundManager {
@@ -168,6 +170,7 @@ interface CharacterData {
     speed: number;
   };
   abilities: string[];
+  faction: TeamId; // Syntax (blue) or Veil (red)
   modelPath: string;
   animationsPath: string;
 }
@@ -811,6 +814,17 @@ const CharacterInfoPanel = ({
           }}>
             {character.name}
           </h2>
+          <div style={{
+            marginTop: '6px',
+            fontSize: '0.9rem',
+            fontWeight: 'bold',
+            letterSpacing: '2px',
+            textTransform: 'uppercase',
+            color: TEAMS[character.faction].color,
+            fontFamily: 'Arial, Helvetica, sans-serif'
+          }}>
+            {TEAMS[character.faction].name}
+          </div>
         </div>
       </div>
       
@@ -1160,6 +1174,7 @@ const sampleCharacters: CharacterData[] = [
       speed: 6
     },
     abilities: ['Tactical Scan', 'Shield Deploy', 'Precision Strike', 'System Override'],
+    faction: 'syntax',
     modelPath: '/models/player/1_1.glb',
     animationsPath: '/models/player/2_1.glb'
   },
@@ -1174,6 +1189,7 @@ const sampleCharacters: CharacterData[] = [
       speed: 10
     },
     abilities: ['Ghost Protocol', 'Void Strike', 'Neural Disrupt', 'Shadow Step'],
+    faction: 'veil',
     modelPath: '/models/player/1_2.glb',
     animationsPath: '/models/player/2_1.glb'
   },
@@ -1188,6 +1204,7 @@ const sampleCharacters: CharacterData[] = [
       speed: 4
     },
     abilities: ['Barrage', 'Kinetic Shield', 'Ground Slam', 'Missile Volley'],
+    faction: 'syntax',
     modelPath: '/models/player/2_1.glb',
     animationsPath: '/models/player/2_1.glb'
   },
@@ -1202,6 +1219,7 @@ const sampleCharacters: CharacterData[] = [
       speed: 7
     },
     abilities: ['Tactical Scan', 'Adaptive Shield', 'Combat Overdrive', 'Precision Strike'],
+    faction: 'veil',
     modelPath: '/models/player/2_2.glb',
     animationsPath: '/models/player/2_1.glb'
   }
@@ -1310,6 +1328,7 @@ const CameraAnimation = () => {
 
 // Main Character Selection component
 const CharacterSelect = () => {
+  const router = useRouter();
   const [warriorAnimationNames, setWarriorAnimationNames] = useState<string[]>([]);
   const [currentWarriorAnimation, setCurrentWarriorAnimation] = useState<string | null>(null);
   const warriorMixerRef = useRef<THREE.AnimationMixer | null>(null);
@@ -1414,8 +1433,8 @@ const CharacterSelect = () => {
     // Play select sound effect
     soundManagerRef.current?.playSound('buttonDown', audioVolume);
     
-    // Would typically navigate to the next screen or start the game
-    alert(`Selected character: ${currentCharacter.name}`);
+    // Into the game, fighting for the character's faction
+    router.push(`/gamedev?team=${currentCharacter.faction}`);
   };
 
   // Add the custom CSS styles to the document
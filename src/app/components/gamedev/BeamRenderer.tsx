@@ -0,0 +1,112 @@
+'use client';
+
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { GameSimulation } from '../simulation';
+
+interface BeamRendererProps {
+  // Simulation whose beams to show
+  simulation: GameSimulation;
+}
+
+// Beams that can be drawn at once (one per player firing a beam weapon)
+const MAX_BEAMS = 8;
+// Thickness of the outer glow and the bright core
+const BEAM_WIDTH = 0.25;
+const CORE_WIDTH = 0.08;
+
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Renders the simulation's energy beams - a glowing cylinder from the muzzle to
+ * whatever stopped the beam, with a flickering glow and light where it hits.
+ * Polls the beams fired in the last step, like ProjectileManager does for projectiles.
+ */
+const BeamRenderer: React.FC<BeamRendererProps> = ({ simulation }) => {
+  const beamRefs = useRef<(THREE.Group | null)[]>([]);
+  const impactRefs = useRef<(THREE.Group | null)[]>([]);
+
+  // Reused each frame
+  const direction = useRef(new THREE.Vector3());
+  const quaternion = useRef(new THREE.Quaternion());
+
+  useFrame((state) => {
+    const beams = simulation.getBeams();
+    const flicker = 0.85 + 0.15 * Math.sin(state.clock.elapsedTime * 60);
+
+    for (let index = 0; index < MAX_BEAMS; index++) {
+      const beamGroup = beamRefs.current[index];
+      const impactGroup = impactRefs.current[index];
+      if (!beamGroup || !impactGroup) continue;
+
+      const beam = beams[index];
+      if (!beam) {
+        beamGroup.visible = false;
+        impactGroup.visible = false;
+        continue;
+      }
+
+      // Stretch a unit cylinder along the beam
+      direction.current.subVectors(beam.end, beam.origin);
+      const length = direction.current.length();
+      if (length === 0) {
+        beamGroup.visible = false;
+        impactGroup.visible = false;
+        continue;
+      }
+      quaternion.current.setFromUnitVectors(Y_AXIS, direction.current.divideScalar(length));
+
+      beamGroup.visible = true;
+      beamGroup.position.lerpVectors(beam.origin, beam.end, 0.5);
+      beamGroup.quaternion.copy(quaternion.current);
+      beamGroup.scale.set(flicker, length, flicker);
+
+      // Glow where the beam is stopped
+      impactGroup.visible = beam.hit !== null;
+      impactGroup.position.copy(beam.end);
+      impactGroup.scale.setScalar(flicker);
+    }
+  });
+
+  return (
+    <>
+      {Array.from({ length: MAX_BEAMS }, (_, index) => (
+        <group key={index}>
+          <group ref={(group) => { beamRefs.current[index] = group; }} visible={false}>
+            <mesh>
+              <cylinderGeometry args={[BEAM_WIDTH / 2, BEAM_WIDTH / 2, 1, 12, 1, true]} />
+              <meshBasicMaterial
+                color="#3fd8ff"
+                transparent
+                opacity={0.45}
+                depthWrite={false}
+                blending={THREE.AdditiveBlending}
+                side={THREE.DoubleSide}
+              />
+            </mesh>
+            <mesh>
+              <cylinderGeometry args={[CORE_WIDTH / 2, CORE_WIDTH / 2, 1, 8]} />
+              <meshBasicMaterial color="#e8fbff" />
+            </mesh>
+          </group>
+          <group ref={(group) => { impactRefs.current[index] = group; }} visible={false}>
+            <mesh>
+              <sphereGeometry args={[0.35, 16, 12]} />
+              <meshBasicMaterial
+                color="#7fe8ff"
+                transparent
+                opacity={0.7}
+                depthWrite={false}
+                blending={THREE.AdditiveBlending}
+              />
+            </mesh>
+            <pointLight color="#3fd8ff" intensity={8} distance={6} />
+          </group>
+        </group>
+      ))}
+    </>
+  );
+};
+
+export default BeamRenderer;
@@ -1,13 +1,14 @@
 'use client';
 
-import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle, ForwardRefRenderFunction, useCallback } from 'react';
+import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle, ForwardRefRenderFunction, useCallback, useMemo } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import { useGLTF, useAnimations } from '@react-three/drei';
 import * as THREE from 'three';
 import * as dat from 'lil-gui';
 
 import { PhysicsBody } from '../physics';
-import { PHYSICS } from '../physics';
+import { GameSimulation, Player, GAME, TeamId, TEAMS } from '../simulation';
+import { WeaponId, IWeaponDefinition, getWeaponDefinition } from '../weapons';
 
 // Export interface for the ref
 export interface CharacterControllerRef {
@@ -16,12 +17,49 @@ export interface CharacterControllerRef {
   shoot: () => void;
 }
 
+// Wall movement animations - fall back to the jump pose until the model ships with these clips
+const WALL_SLIDE_ANIMATION = 'Wall Slide';
+const WALL_JUMP_ANIMATION = 'Wall Jump';
+const WALL_ANIMATION_FALLBACK = 'RifleJump';
+
+// Played once on death; models without it topple over instead
+const DEATH_ANIMATION = 'Death';
+const WORLD_Z_AXIS = new THREE.Vector3(0, 0, 1);
+
+// Played over the reload duration when the model has it
+const RELOAD_ANIMATION = 'Rifle Reload';
+
+// Played on a hard landing while the body is staggered, when the model has it
+const HARD_LANDING_ANIMATION = 'Hard Landing';
+
+// Strength of the team colour glow on the character's materials
+const TEAM_TINT_INTENSITY = 0.35;
+
+// Wheel travel needed to step to the next weapon (one notch on most mice)
+const WEAPON_WHEEL_STEP = 50;
+
+// Tunable copy of a weapon's settings for the debug panel
+// (muzzle flash is view-only, the rest is pushed to the simulation)
+function createWeaponTuning(definition: IWeaponDefinition) {
+  return {
+    weaponId: definition.id, // Which weapon these settings belong to
+    isAutomatic: definition.config.isAutomatic,
+    fireRate: definition.config.fireRate, // Shots per second
+    damage: definition.config.damage,
+    muzzleFlashDuration: definition.view.muzzleFlashDuration, // ms
+    recoil: definition.config.recoil,
+    maxRecoil: definition.config.maxRecoil,
+    recoilRecovery: definition.config.recoilRecovery,
+    recoilPush: definition.config.recoilPush // Knockback on the shooter per shot
+  };
+}
+
 interface CharacterControllerProps {
   // Model to use, if none provided will use a simple box
   modelPath?: string;
   // Path to the animation host model to use for animations
   animationsPath?: string;
-  // Initial position
+  // Initial position - picked from the level's spawn zones when left out
   position?: [number, number, number];
   // Scale of the model
   scale?: number;
@@ -33,8 +71,14 @@ interface CharacterControllerProps {
   defaultAnimation?: string;
   // Enable debug mode for verbose logging
   debug?: boolean;
-  // Weapon model path
-  weaponPath?: string;
+  // Weapons carried, one per slot - switched with the number keys or the scroll wheel
+  loadout?: readonly WeaponId[];
+  // Simulation that owns this character's physics and weapon
+  simulation: GameSimulation;
+  // Id of this character's player in the simulation
+  playerId?: string;
+  // Team fought for - tints the character in the team colour
+  team?: TeamId | null;
 }
 
 /**
@@ -44,13 +88,16 @@ interface CharacterControllerProps {
 const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, CharacterControllerProps> = ({
   modelPath = '/models/player/2_2.glb',
   animationsPath = '/models/player/animation_host.glb', // Using the animation host GLB file instead of FBX
-  position = [0, 0.1, 0], // Raised slightly above ground level to allow jet to work
+  position,
   scale = 2,
   speed = 5,
   enableKeyboardControls = true,
   defaultAnimation = 'RifleIdle',
   debug = false,
-  weaponPath = '/models/weapon/rifle2.glb'
+  loadout = GAME.PLAYER.DEFAULT_LOADOUT,
+  simulation,
+  playerId = 'player',
+  team = null
 }, ref) => {
   // Reference to the character model or group
   const characterRef = useRef<THREE.Group | THREE.Mesh>(null);
@@ -65,6 +112,8 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
   
   // Add ref for sound effects
   const rifleFireSoundRef = useRef<HTMLAudioElement | null>(null);
+  const reloadSoundRef = useRef<HTMLAudioElement | null>(null);
+  const dryFireSoundRef = useRef<HTMLAudioElement | null>(null);
   
   // State for movement direction
   const [moveDirection, setMoveDirection] = useState({ 
@@ -72,7 +121,8 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
     y: 0,  // Up/down movement (jumping, gravity)
     z: 0,  // Forward/backward movement (limited for side-scrolling)
     jump: false, // Jump input state
-    jet: false   // Jet pack input state
+    jet: false,  // Jet pack input state
+    drop: false  // Drop through one-way platforms
   });
   
   // State for movement constraints
@@ -109,8 +159,12 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
   const animationsResult = useGLTF(animationsPath, true);
   const animations = animationsResult.animations;
   
-  // Load the rifle model
-  const { scene: rifleScene } = useGLTF(weaponPath, true);
+  // Load every weapon model in the loadout up front so switching doesn't stall
+  const [activeSlot, setActiveSlot] = useState(0);
+  const weaponDefinition = getWeaponDefinition(loadout[activeSlot] ?? loadout[0]);
+  const weaponModelPaths = useMemo(() => loadout.map(id => getWeaponDefinition(id).view.modelPath), [loadout]);
+  const weaponModels = useGLTF(weaponModelPaths, true);
+  const rifleScene = weaponModels[activeSlot]?.scene;
   
   // Mouse tracking for aiming
   const mousePosition = useRef(new THREE.Vector2());
@@ -136,35 +190,11 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
   // Add state to track facing direction
   const [facingDirection, setFacingDirection] = useState<'left' | 'right'>('right');
   
-  // Add state for rifle offsets
-  const [rifleOffsets, setRifleOffsets] = useState({
-    RifleRun: {
-      position: { x: 0.06, y: 0.05, z: 0.35 },
-      rotation: { x: Math.PI / 8, y: Math.PI / 1 + 1.8, z: -Math.PI / 2 }
-    },
-    RifleIdle: {
-      position: { x: 0.08, y: 0.0, z: 0.15 },
-      rotation: { 
-        x: -5 * (Math.PI / 180),
-        y: -90 * (Math.PI / 180),
-        z: -100 * (Math.PI / 180)
-      }
-    },
-    "Backwards Rifle Run": {
-      position: { x: 0.07, y: 0.03, z: 0.3 },
-      rotation: { 
-        x: Math.PI / 10,
-        y: Math.PI / 1 + 1,
-        z: -Math.PI / 2
-      }
-    }
-  });
+  // Hold offsets for the weapon in hand (copied, since the debug GUI edits them in place)
+  const [rifleOffsets, setRifleOffsets] = useState(() => structuredClone(weaponDefinition.view.holdOffsets));
   
   // Default offsets for any animation not in the mapping
-  const DEFAULT_OFFSETS = {
-    position: { x: 0.06, y: 0.02, z: 0.35 },
-    rotation: { x: Math.PI / 16, y: Math.PI / 1 + 1.8, z: -Math.PI / 2 }
-  };
+  const DEFAULT_OFFSETS = weaponDefinition.view.defaultHoldOffset;
   
   // Get camera from useThree
   const { camera } = useThree();
@@ -189,23 +219,12 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
   
   // Add state for handling shooting
   const [isShooting, setIsShooting] = useState(false);
-  const [lastShotTime, setLastShotTime] = useState(0);
   const [isMouseDown, setIsMouseDown] = useState(false);
   const shootIntervalRef = useRef<number | null>(null);
   const isMouseDownRef = useRef(false); // Add a ref for tracking mouse state without rerender issues
   
-  // Add weapon configuration state
-  const [weaponConfig, setWeaponConfig] = useState({
-    isAutomatic: true,
-    fireRate: 5, // Shots per second
-    muzzleFlashDuration: 50, // ms
-    recoil: 0.02,
-    maxRecoil: 0.1,
-    recoilRecovery: 0.01
-  });
-  
-  // Add recoil tracking
-  const currentRecoilRef = useRef(0);
+  // Weapon tuning state, starting from the weapon's definition
+  const [weaponConfig, setWeaponConfig] = useState(() => createWeaponTuning(weaponDefinition));
   
   // Add ref for muzzle flash
   const muzzleFlashRef = useRef<THREE.Mesh | null>(null);
@@ -228,15 +247,131 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
     lifetime: number;
   }[]>([]);
   
-  // Add physics body reference
+  // The simulation player this component renders, and its physics body
+  const playerRef = useRef<Player | null>(null);
   const physicsBodyRef = useRef<PhysicsBody | null>(null);
   
-  // Initialize physics body
+  // Grounded state as of the last rendered frame, for landing detection
+  const wasGroundedRef = useRef(false);
+  // Set once the simulation reports our death
+  const isDeadRef = useRef(false);
+  // Progress of the fallback topple when there's no death animation (0-1)
+  const deathFallRef = useRef(0);
+  
+  // Spawn where the position prop says on mount; later prop changes don't teleport us
+  const spawnPositionRef = useRef(position);
+  const teamRef = useRef(team);
+  
+  // Register our player with the simulation
   useEffect(() => {
-    if (characterRef.current) {
-      physicsBodyRef.current = new PhysicsBody(characterRef.current.position);
-    }
-  }, []);
+    const spawnPosition = spawnPositionRef.current ? new THREE.Vector3(...spawnPositionRef.current) : undefined;
+    const player = simulation.addPlayer(playerId, spawnPosition, teamRef.current);
+    playerRef.current = player;
+    physicsBodyRef.current = player.body;
+    
+    return () => {
+      simulation.removePlayer(playerId);
+      playerRef.current = null;
+      physicsBodyRef.current = null;
+    };
+  }, [simulation, playerId]);
+  
+  // Follow team changes after spawning
+  useEffect(() => {
+    teamRef.current = team;
+    simulation.setTeam(playerId, team);
+  }, [simulation, playerId, team]);
+  
+  // Glow in the team colour. The model is shared through the GLTF cache, so the tint goes
+  // on copies of its materials and the originals are put back on cleanup.
+  useEffect(() => {
+    if (!team) return;
+    
+    const tint = new THREE.Color(TEAMS[team].color);
+    const restore: (() => void)[] = [];
+    scene.traverse((object) => {
+      if (!(object instanceof THREE.SkinnedMesh)) return;
+      
+      const original = object.material as THREE.Material | THREE.Material[];
+      const tinted = (Array.isArray(original) ? original : [original]).map((material) => {
+        const copy = material.clone();
+        if (copy instanceof THREE.MeshStandardMaterial) {
+          copy.emissive.copy(tint);
+          copy.emissiveIntensity = TEAM_TINT_INTENSITY;
+        }
+        return copy;
+      });
+      object.material = Array.isArray(original) ? tinted : tinted[0];
+      
+      restore.push(() => {
+        object.material = original;
+        tinted.forEach(material => material.dispose());
+      });
+    });
+    
+    return () => restore.forEach(undo => undo());
+  }, [scene, team]);
+  
+  // Feed keyboard and jet input to the simulation
+  useEffect(() => {
+    simulation.setInput(playerId, {
+      moveX: moveDirection.x,
+      jump: moveDirection.jump,
+      jet: moveDirection.jet,
+      drop: moveDirection.drop
+    });
+  }, [simulation, playerId, moveDirection]);
+  
+  // Hand our loadout to the simulation, starting from the first slot
+  useEffect(() => {
+    playerRef.current?.setLoadout(loadout);
+    setActiveSlot(0);
+  }, [simulation, playerId, loadout]);
+  
+  // Follow the simulation's weapon switches - hide the weapon while it's holstered,
+  // then swap in the new model once it's in hand
+  useEffect(() => {
+    const unsubscribeStart = simulation.on('weaponSwitchStart', (event) => {
+      if (event.playerId !== playerId || !rifleRef.current) return;
+      rifleRef.current.visible = event.toSlot === event.fromSlot;
+    });
+    const unsubscribeSwitched = simulation.on('weaponSwitched', (event) => {
+      if (event.playerId === playerId) setActiveSlot(event.slot);
+    });
+    
+    return () => {
+      unsubscribeStart();
+      unsubscribeSwitched();
+    };
+  }, [simulation, playerId]);
+  
+  // Reset the tuning and hold offsets whenever a different weapon comes into hand
+  useEffect(() => {
+    setWeaponConfig(createWeaponTuning(weaponDefinition));
+    setRifleOffsets(structuredClone(weaponDefinition.view.holdOffsets));
+  }, [weaponDefinition]);
+  
+  // Push the tunable weapon settings to the simulated weapon
+  useEffect(() => {
+    const weapon = playerRef.current?.weapon;
+    // Settings for the weapon we just switched away from don't apply to the new one
+    if (!weapon || weapon.definition.id !== weaponConfig.weaponId) return;
+    
+    weapon.configure({
+      isAutomatic: weaponConfig.isAutomatic,
+      fireRate: weaponConfig.fireRate,
+      damage: weaponConfig.damage,
+      recoil: weaponConfig.recoil,
+      maxRecoil: weaponConfig.maxRecoil,
+      recoilRecovery: weaponConfig.recoilRecovery,
+      recoilPush: weaponConfig.recoilPush
+    });
+  }, [simulation, playerId, weaponConfig]);
+  
+  // The speed prop is the run speed the physics body accelerates towards
+  useEffect(() => {
+    physicsBodyRef.current?.setRunSpeed(speed);
+  }, [simulation, playerId, speed]);
   
   // Log model details
   useEffect(() => {
@@ -433,11 +568,11 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
     
     // Determine if this animation should be looped
     // Add special case handling for any animations that shouldn't loop
-    const nonLoopingAnimations = ['Rifle Fire', 'RifleJump'];
+    const nonLoopingAnimations = ['Rifle Fire', 'RifleJump', WALL_JUMP_ANIMATION, DEATH_ANIMATION, RELOAD_ANIMATION, HARD_LANDING_ANIMATION];
     
     if (nonLoopingAnimations.includes(name)) {
-      // Special handling for jump animation to freeze at the end frame
-      if (name === 'RifleJump') {
+      // Special handling for jump animations to freeze at the end frame
+      if (name === 'RifleJump' || name === WALL_JUMP_ANIMATION || name === DEATH_ANIMATION) {
         action.setLoop(THREE.LoopOnce, 1);
         action.clampWhenFinished = true; // This is key: KEEP the last pose until we explicitly transition
       } else {
@@ -458,6 +593,11 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
     setCurrentAnimation(name);
   };
   
+  // Latest playAnimation for simulation event handlers, so subscriptions
+  // don't churn every render
+  const playAnimationRef = useRef(playAnimation);
+  playAnimationRef.current = playAnimation;
+  
   // Set up keyboard controls
   useEffect(() => {
     if (!enableKeyboardControls) return;
@@ -477,13 +617,10 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
           break;
         // Jump with Space
         case 'Space':
-          // Only set jump to true if we're on the ground and not already jumping
-          if (physicsBodyRef.current && physicsBodyRef.current.isGrounded() && !moveDirection.jump) {
+          // Always pass the jump through - the body buffers it until we can actually jump,
+          // and the jump animation plays when the simulation reports the jump
+          if (!moveDirection.jump) {
             setMoveDirection(prev => ({ ...prev, jump: true }));
-            // Only play jump animation once when leaving the ground
-            if (actions && actions['RifleJump']) {
-              playAnimation('RifleJump');
-            }
           }
           break;
         // Up/down are still available but may be disabled for pure side-scrolling
@@ -497,6 +634,9 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
         case 'ArrowDown': 
           if (!movementConstraints.lockZ) {
             setMoveDirection(prev => ({ ...prev, z: 1 })); 
+          } else {
+            // Side-scrolling: down drops through the one-way platform we're standing on
+            setMoveDirection(prev => (prev.drop ? prev : { ...prev, drop: true }));
           }
           break;
       }
@@ -527,6 +667,8 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
         case 'ArrowDown': 
           if (!movementConstraints.lockZ) {
             setMoveDirection(prev => ({ ...prev, z: 0 }));
+          } else {
+            setMoveDirection(prev => ({ ...prev, drop: false }));
           }
           break;
       }
@@ -541,10 +683,10 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
       }
     };
     
-    // Add animation testing keys (1-9)
+    // Add animation testing keys (Shift + 1-9) - plain number keys select weapons
     const handleAnimationTest = (e: KeyboardEvent) => {
-      // Number keys 1-9 for testing animations
-      if (e.code.startsWith('Digit') && availableAnimations.length > 0) {
+      // Shift + number keys 1-9 for testing animations
+      if (e.shiftKey && e.code.startsWith('Digit') && availableAnimations.length > 0) {
         const digit = parseInt(e.code.replace('Digit', ''), 10) - 1;
         if (digit >= 0 && digit < availableAnimations.length) {
           playAnimation(availableAnimations[digit], true); // Mark as manual selection
@@ -647,33 +789,36 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
     // Create rifle instance from rifle model once bones are found
     if (rifleScene) {
       console.log('Creating rifle instance');
+      const { modelScale, muzzleNode, ejectorNode } = weaponDefinition.view;
       const rifleCopy = rifleScene.clone();
-      rifleCopy.scale.set(0.7, 0.7, 0.7);
+      rifleCopy.scale.set(modelScale, modelScale, modelScale);
       
-      // Look for the gun_muzzle and ejector objects in the rifle model
+      // Look for the muzzle and ejector objects named by the weapon definition
+      muzzleRef.current = null;
+      ejectorRef.current = null;
       rifleCopy.traverse((object) => {
-        if (object.name === 'gun_muzzle') {
-          console.log('Found gun_muzzle in rifle model:', object);
+        if (object.name === muzzleNode) {
+          console.log(`Found ${muzzleNode} in weapon model:`, object);
           muzzleRef.current = object;
         }
-        if (object.name === 'ejector') {
-          console.log('Found ejector in rifle model:', object);
+        if (object.name === ejectorNode) {
+          console.log(`Found ${ejectorNode} in weapon model:`, object);
           ejectorRef.current = object;
         }
       });
       
       // If muzzle or ejector not found, log warning
       if (!muzzleRef.current) {
-        console.warn('No gun_muzzle object found in rifle model, flash effects may not work correctly');
+        console.warn(`No ${muzzleNode} object found in weapon model, flash effects may not work correctly`);
       }
       if (!ejectorRef.current) {
-        console.warn('No ejector object found in rifle model, shell casings may not eject correctly');
+        console.warn(`No ${ejectorNode} object found in weapon model, shell casings may not eject correctly`);
       }
       
       rifleRef.current = rifleCopy;
       console.log('Rifle reference set');
     }
-  }, [scene, rifleScene]);
+  }, [scene, rifleScene, weaponDefinition]);
   
   // Set up mouse tracking
   useEffect(() => {
@@ -713,6 +858,9 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
     // This will allow the aim point to follow the mouse without distance constraints
     setWorldMousePosition(intersectionPoint);
     
+    // The simulation aims (and fires) at the same point
+    simulation.setInput(playerId, { aim: { x: intersectionPoint.x, y: intersectionPoint.y } });
+    
     // if (debug) {
     //   console.log('Mouse tracking:', {
     //     mousePos: { x: mousePosition.current.x, y: mousePosition.current.y },
@@ -722,12 +870,30 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
     // }
   });
   
-  // Add mouse wheel handler for camera zoom
+  // Add mouse wheel handler - cycles weapons, or zooms the camera with Ctrl held (or a trackpad pinch)
   useEffect(() => {
+    let weaponWheelTravel = 0;
+    
     const handleWheel = (event: WheelEvent) => {
-      // Prevent default scrolling behavior
+      // Prevent default scrolling behavior (and the browser's own Ctrl + wheel page zoom)
       event.preventDefault();
       
+      if (!event.ctrlKey) {
+        // Step through the loadout once enough wheel travel builds up
+        const player = playerRef.current;
+        if (!enableKeyboardControls || !player) return;
+        
+        weaponWheelTravel += event.deltaY;
+        if (Math.abs(weaponWheelTravel) < WEAPON_WHEEL_STEP) return;
+        
+        const direction = Math.sign(weaponWheelTravel);
+        weaponWheelTravel = 0;
+        const slotCount = player.weapons.length;
+        const weaponSlot = (player.input.weaponSlot + direction + slotCount) % slotCount;
+        simulation.setInput(playerId, { weaponSlot });
+        return;
+      }
+      
       // Adjust zoom based on wheel delta
       // Positive deltaY means scrolling down (zoom out)
       // Negative deltaY means scrolling up (zoom in)
@@ -741,7 +907,7 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
 
     window.addEventListener('wheel', handleWheel, { passive: false });
     return () => window.removeEventListener('wheel', handleWheel);
-  }, []);
+  }, [enableKeyboardControls, simulation, playerId]);
 
   // Update camera position with zoom
   useEffect(() => {
@@ -780,20 +946,16 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
       });
     }
 
-    // Get physics state before update
-    const wasGrounded = physicsBodyRef.current.getState().grounded;
-
-    // Update physics with both jump and jet parameters
-    physicsBodyRef.current.update(delta, { 
-      jump: moveDirection.jump,
-      jet: moveDirection.jet 
-    });
-
-    // Get updated physics state
+    // The simulation has already stepped this frame - compare against what we rendered last frame
+    const wasGrounded = wasGroundedRef.current;
     const isNowGrounded = physicsBodyRef.current.getState().grounded;
+    wasGroundedRef.current = isNowGrounded;
+    
+    // Hard landings hold their own animation until the stagger wears off
+    const isStaggered = physicsBodyRef.current.isStaggered();
     
     // Detect landing - if we just hit the ground
-    if (!wasGrounded && isNowGrounded) {
+    if (!wasGrounded && isNowGrounded && !isDeadRef.current && !isStaggered) {
       // We just landed, play idle or run animation based on movement state
       const isMoving = moveDirection.x !== 0 || moveDirection.z !== 0;
       
@@ -814,12 +976,6 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
       }
     }
 
-    // Get updated position from physics
-    const physicsPosition = physicsBodyRef.current.getPosition();
-    
-    // Update character position with physics position
-    characterRef.current.position.y = physicsPosition.y;
-
     // Create direction vector for horizontal movement
     const directionVector = new THREE.Vector3(
       moveDirection.x,
@@ -827,22 +983,24 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
       movementConstraints.lockZ ? 0 : moveDirection.z
     );
 
-    // Only normalize if there's actual movement
+    // Movement input drives the run animations - the physics body handles the actual motion
     const isMoving = directionVector.length() > 0;
-
-    if (isMoving) {
-      directionVector.normalize();
-      
-      // Apply movement to X and Z
-      const finalDirection = directionVector.clone();
-      finalDirection.multiplyScalar(speed * delta);
-      
-      // Update position for X and Z only
-      characterRef.current.position.x += finalDirection.x;
-      characterRef.current.position.z += finalDirection.z;
-
-      // Update physics body position
-      physicsBodyRef.current.setPosition(characterRef.current.position);
+    
+    // Update character position with physics position, blended between the last two steps
+    const physicsPosition = physicsBodyRef.current.getInterpolatedPosition(simulation.getAlpha());
+    characterRef.current.position.x = physicsPosition.x;
+    characterRef.current.position.y = physicsPosition.y;
+    
+    // Dead - stay down and skip the movement animations and aiming below
+    if (isDeadRef.current) {
+      if (!actions[DEATH_ANIMATION]) {
+        // No death clip on this model - topple over backwards in the play plane instead
+        deathFallRef.current = Math.min(1, deathFallRef.current + delta * 4);
+        const facingSign = facingDirection === 'right' ? 1 : -1;
+        characterRef.current.rotation.set(0, facingSign * Math.PI / 2, 0);
+        characterRef.current.rotateOnWorldAxis(WORLD_Z_AXIS, facingSign * (Math.PI / 2) * deathFallRef.current);
+      }
+      return;
     }
     
     // Add debug logging to track movement state
@@ -917,7 +1075,7 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
       setFacingDirection(shouldFaceRight ? 'right' : 'left');
       
       // Only change animations if no manual animation is active or if we're already in a movement animation
-      if (!isManualAnimationActive) {
+      if (!isManualAnimationActive && !isStaggered) {
         const physicsState = physicsBodyRef.current.getState();
         const isInAir = !physicsState.grounded;
         const wasJustOnGround = physicsState.lastJumpTime < 0.1; // Check if we just left the ground
@@ -988,35 +1146,23 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
       }
     }
     
+    // Wall slide - face away from the wall and hold the slide pose
+    const wallState = physicsBodyRef.current.getState();
+    if (wallState.wallSliding && !isManualAnimationActive) {
+      setFacingDirection(wallState.wallContact === 1 ? 'left' : 'right');
+      
+      const slideAnimation = actions[WALL_SLIDE_ANIMATION] ? WALL_SLIDE_ANIMATION : WALL_ANIMATION_FALLBACK;
+      if (currentAnimation !== slideAnimation && actions[slideAnimation]) {
+        playAnimation(slideAnimation);
+      }
+    }
+    
     // Set rotation based on facing direction
     const targetRotation = facingDirection === 'right' ? Math.PI / 2 : -Math.PI / 2;
     
     // Apply the rotation
     characterRef.current.rotation.y = targetRotation;
     
-    if (isMoving) {
-      directionVector.normalize();
-      
-      // Apply rotation to the movement direction only if rotation is not locked
-      let finalDirection = directionVector.clone();
-      
-      if (!movementConstraints.lockRotation) {
-        // Only rotate the XZ components, not the Y (jumping) component
-        const rotatedDirection = new THREE.Vector3(directionVector.x, 0, directionVector.z)
-          .applyAxisAngle(new THREE.Vector3(0, 1, 0), rotation);
-        
-        // Put back the Y component
-        rotatedDirection.y = directionVector.y;
-        finalDirection = rotatedDirection;
-      }
-      
-      // Scale by speed and delta time for frame-rate independence
-      finalDirection.multiplyScalar(speed * delta);
-      
-      // Update position
-      characterRef.current.position.add(finalDirection);
-    }
-    
     // Apply bone rotations for aiming
     if (
       worldMousePosition && 
@@ -1320,6 +1466,11 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
       setWeaponConfig(prev => ({ ...prev, fireRate: value }));
     });
     
+    // Add damage control
+    weaponFolder.add(weaponConfig, 'damage', 1, 100, 1).name('Damage').onChange((value: number) => {
+      setWeaponConfig(prev => ({ ...prev, damage: value }));
+    });
+    
     // Add muzzle flash duration control
     weaponFolder.add(weaponConfig, 'muzzleFlashDuration', 10, 200, 10).name('Flash Duration (ms)').onChange((value: number) => {
       setWeaponConfig(prev => ({ ...prev, muzzleFlashDuration: value }));
@@ -1338,6 +1489,10 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
       setWeaponConfig(prev => ({ ...prev, recoilRecovery: value }));
     });
     
+    weaponFolder.add(weaponConfig, 'recoilPush', 0, 15, 0.1).name('Recoil Push').onChange((value: number) => {
+      setWeaponConfig(prev => ({ ...prev, recoilPush: value }));
+    });
+    
     // Add animation speed control
     const animationSpeed = { speed: 1.0 };
     gui.add(animationSpeed, 'speed', 0.1, 2.0, 0.1).onChange((value: number) => {
@@ -1501,7 +1656,7 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
     return () => {
       // No cleanup needed for muzzle flash as it's attached to the rifle
     };
-  }, [rifleRef, muzzleRef]);
+  }, [rifleRef, muzzleRef, rifleScene, weaponDefinition]);
   
   // Create shell casings instanced mesh
   useEffect(() => {
@@ -1553,19 +1708,33 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
   
   // Initialize sound effects
   useEffect(() => {
-    // Set up rifle fire sound
-    const rifleFireSound = new Audio('/sound/rifle_fire.mp3');
+    // Set up the weapon's fire sound
+    const rifleFireSound = new Audio(weaponDefinition.view.fireSound);
     rifleFireSound.volume = 0.6; // Adjust volume as needed
     rifleFireSoundRef.current = rifleFireSound;
     
+    // Reload and empty-trigger click, for weapons that have them
+    const { reloadSound, dryFireSound } = weaponDefinition.view;
+    if (reloadSound) {
+      reloadSoundRef.current = new Audio(reloadSound);
+      reloadSoundRef.current.volume = 0.5;
+    }
+    
+    if (dryFireSound) {
+      dryFireSoundRef.current = new Audio(dryFireSound);
+      dryFireSoundRef.current.volume = 0.5;
+    }
+    
     return () => {
       // Clean up audio resources
-      if (rifleFireSoundRef.current) {
-        rifleFireSoundRef.current.pause();
-        rifleFireSoundRef.current = null;
-      }
+      [rifleFireSoundRef, reloadSoundRef, dryFireSoundRef].forEach(soundRef => {
+        if (soundRef.current) {
+          soundRef.current.pause();
+          soundRef.current = null;
+        }
+      });
     };
-  }, []);
+  }, [weaponDefinition.view]);
   
   // Function to eject a shell casing - simplified for clarity
   const ejectShell = useCallback(() => {
@@ -1759,19 +1928,8 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
     }
   });
 
-  // Function to trigger shooting
-  const shoot = useCallback(() => {
-    // Check cooldown
-    const currentTime = Date.now();
-    const timeSinceLastShot = currentTime - lastShotTime;
-    const cooldownTime = 1000 / weaponConfig.fireRate;
-    
-    if (timeSinceLastShot < cooldownTime) {
-      return false; // Don't shoot if we haven't waited long enough
-    }
-    
-    // Update shot time
-    setLastShotTime(currentTime);
+  // Play sound, animation, muzzle flash and shell ejection for a shot the simulation fired
+  const onShotFired = useCallback(() => {
     setIsShooting(true);
     
     // Play rifle fire sound
@@ -1784,12 +1942,6 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
       });
     }
     
-    // Apply recoil
-    currentRecoilRef.current = Math.min(
-      weaponConfig.maxRecoil, 
-      currentRecoilRef.current + weaponConfig.recoil
-    );
-    
     // Check if we're moving
     const isMoving = moveDirection.x !== 0 || moveDirection.y !== 0 || moveDirection.z !== 0;
     
@@ -1848,78 +2000,121 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
     // Eject a shell casing
     ejectShell();
     
-    // SPAWN PROJECTILE
-    // Get position and direction for the projectile
-    if (muzzleRef.current) {
-      // Get character position first
-      const characterPosition = characterRef.current?.position.clone() || new THREE.Vector3();
-      
-      // Calculate a spawn position in front of the character 
-      // based on character's facing direction
-      const spawnOffset = new THREE.Vector3();
-      const facingDirectionVector = facingDirection === 'right' ? 
-        new THREE.Vector3(1, 0, 0) : new THREE.Vector3(-1, 0, 0);
-      
-      // Add offset in facing direction and raise slightly to shoulder height
-      spawnOffset.copy(facingDirectionVector).multiplyScalar(1.0); // 1 unit in front
-      spawnOffset.y = 3; // Raised to chest/shoulder height
-      
-      // Create spawn position by adding offset to character position
-      const spawnPosition = characterPosition.clone().add(spawnOffset);
-      
-      // Calculate direction based on world mouse position
-      // This creates a vector pointing from spawn position to mouse position
-      const direction = new THREE.Vector3();
-      direction.subVectors(worldMousePosition, spawnPosition).normalize();
-      
-      // Add some random spread based on recoil
-      const spread = currentRecoilRef.current * 0.02; // Convert recoil to spread amount
-      direction.x += (Math.random() - 0.5) * spread;
-      direction.y += (Math.random() - 0.5) * spread;
-      
-      // Access the global projectile spawner
-      // @ts-ignore - Using window for debugging
-      if (window.spawnProjectile) {
-        // @ts-ignore - Using window for debugging
-        window.spawnProjectile({
-          initialPosition: spawnPosition,
-          initialVelocity: direction,
-          speed: 80, // Fast bullets
-          lifetime: 3.0, // 3 second lifetime
-          size: 0.15, // Bullet size
-          gravity: PHYSICS.GRAVITY * 1.0 // Full gravity effect for nice arc
-        });
-        
-        if (debug) {
-          console.log('Spawned projectile:', {
-            position: spawnPosition,
-            direction: direction,
-          });
-        }
-      } else if (debug) {
-        console.warn('ProjectileManager not initialized yet');
-      }
-    }
-    
     // Hide muzzle flash after a short delay
     setTimeout(() => {
       setMuzzleFlashVisible(false);
     }, weaponConfig.muzzleFlashDuration);
     
-    return true; // Return success
+    if (debug) {
+      console.log('Shot fired by simulation for player:', playerId);
+    }
   }, [
     actions,
     ejectShell, 
-    lastShotTime,
     currentAnimation,
     moveDirection,
-    weaponConfig.fireRate, 
-    weaponConfig.maxRecoil, 
     weaponConfig.muzzleFlashDuration, 
-    weaponConfig.recoil,
-    worldMousePosition,
+    playerId,
     debug
   ]);
+  
+  // Ground jumps (including buffered and coyote-time jumps) and jump pad launches play the jump animation
+  useEffect(() => {
+    const playJump = (event: { playerId: string }) => {
+      if (event.playerId !== playerId) return;
+      
+      if (actions['RifleJump']) {
+        playAnimationRef.current('RifleJump');
+      }
+    };
+    
+    const unsubscribeJump = simulation.on('jump', playJump);
+    const unsubscribeLaunch = simulation.on('launch', playJump);
+    
+    return () => {
+      unsubscribeJump();
+      unsubscribeLaunch();
+    };
+  }, [simulation, playerId, actions]);
+  
+  // Hard landings play the stagger animation
+  useEffect(() => {
+    return simulation.on('land', (event) => {
+      if (event.playerId !== playerId || !event.hard || isDeadRef.current) return;
+      
+      if (actions[HARD_LANDING_ANIMATION]) {
+        playAnimationRef.current(HARD_LANDING_ANIMATION);
+      }
+      
+      if (debug) {
+        console.log(`Hard landing at ${event.impactSpeed.toFixed(1)} m/s`);
+      }
+    });
+  }, [simulation, playerId, actions, debug]);
+  
+  // Play the death animation (or start toppling) when we're killed
+  useEffect(() => {
+    return simulation.on('death', (event) => {
+      if (event.playerId !== playerId) return;
+      
+      isDeadRef.current = true;
+      deathFallRef.current = 0;
+      setIsShooting(false);
+      
+      if (actions[DEATH_ANIMATION]) {
+        playAnimationRef.current(DEATH_ANIMATION);
+      }
+      
+      if (debug) {
+        console.log(`Player ${playerId} killed by ${event.damage.sourceId ?? 'unknown'}`);
+      }
+    });
+  }, [simulation, playerId, actions, debug]);
+
+  // Get back up on respawn, with the first weapon in hand
+  useEffect(() => {
+    return simulation.on('spawn', (event) => {
+      if (event.playerId !== playerId) return;
+
+      isDeadRef.current = false;
+      deathFallRef.current = 0;
+      setIsShooting(false);
+      setActiveSlot(playerRef.current?.activeSlot ?? 0);
+      if (rifleRef.current) rifleRef.current.visible = true;
+
+      if (actions[defaultAnimation]) {
+        playAnimationRef.current(defaultAnimation);
+      }
+    });
+  }, [simulation, playerId, actions, defaultAnimation]);
+
+  // Wall jumps flip us to face the way we were launched
+  useEffect(() => {
+    return simulation.on('wallJump', (event) => {
+      if (event.playerId !== playerId) return;
+      
+      setFacingDirection(event.direction === 1 ? 'right' : 'left');
+      
+      const jumpAnimation = actions[WALL_JUMP_ANIMATION] ? WALL_JUMP_ANIMATION : WALL_ANIMATION_FALLBACK;
+      if (actions[jumpAnimation]) {
+        playAnimationRef.current(jumpAnimation);
+      }
+    });
+  }, [simulation, playerId, actions]);
+  
+  // React to our own shots as the simulation fires them
+  useEffect(() => {
+    return simulation.on('shot', (event) => {
+      if (event.playerId === playerId) {
+        onShotFired();
+      }
+    });
+  }, [simulation, playerId, onShotFired]);
+  
+  // Function to trigger shooting - the simulation fires on its next step if the weapon is ready
+  const shoot = useCallback(() => {
+    playerRef.current?.pullTrigger();
+  }, []);
 
   // Function to stop automatic fire
   const stopAutomaticFire = useCallback(() => {
@@ -1929,16 +2124,6 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
     }
   }, []);
 
-  // Use useFrame for continuous firing rather than intervals
-  // This is more resilient against component unmounting
-  useFrame((state, delta) => {
-    // Handle automatic firing in useFrame
-    if (isMouseDownRef.current && weaponConfig.isAutomatic) {
-      // Attempt to shoot - the shoot function will handle cooldowns
-      shoot();
-    }
-  });
-  
   // Set up mouse click handling for shooting
   useEffect(() => {
     const handleMouseDown = (event: MouseEvent) => {
@@ -1948,8 +2133,8 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
         setIsMouseDown(true);
         isMouseDownRef.current = true;
         
-        // Initial shot for both auto and semi
-        shoot();
+        // Hold the trigger - the simulation handles fire rate and auto/semi
+        simulation.setInput(playerId, { fire: true });
       }
     };
     
@@ -1960,6 +2145,7 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
         setIsMouseDown(false);
         isMouseDownRef.current = false;
         setIsShooting(false);
+        simulation.setInput(playerId, { fire: false });
         
         // Return to idle animation ONLY if not moving and current animation is Rifle Fire
         const isMoving = moveDirection.x !== 0 || moveDirection.y !== 0 || moveDirection.z !== 0;
@@ -1993,7 +2179,7 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
       window.removeEventListener('mousedown', handleMouseDown);
       window.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [shoot, moveDirection, currentAnimation, actions, playAnimation]);
+  }, [simulation, playerId, moveDirection, currentAnimation, actions, playAnimation]);
   
   // Update muzzle flash visibility
   useEffect(() => {
@@ -2011,14 +2197,6 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
     }
   }, [muzzleFlashVisible]);
   
-  // Add recoil recovery
-  useFrame((state, delta) => {
-    // Gradually recover from recoil
-    if (currentRecoilRef.current > 0) {
-      currentRecoilRef.current = Math.max(0, currentRecoilRef.current - weaponConfig.recoilRecovery * delta * 60);
-    }
-  });
-  
   // Add firing mode toggle with V key
   useEffect(() => {
     const toggleFiringMode = (e: KeyboardEvent) => {
@@ -2050,6 +2228,80 @@ const CharacterController: ForwardRefRenderFunction<CharacterControllerRef, Char
     return () => window.removeEventListener('keydown', toggleFiringMode);
   }, [debug, stopAutomaticFire, weaponConfig.isAutomatic]);
   
+  // Select weapon slots with the number keys (Shift + number is animation testing)
+  useEffect(() => {
+    if (!enableKeyboardControls) return;
+    
+    const handleWeaponSelect = (e: KeyboardEvent) => {
+      if (e.shiftKey || !e.code.startsWith('Digit')) return;
+      
+      const weaponSlot = parseInt(e.code.replace('Digit', ''), 10) - 1;
+      if (weaponSlot >= 0 && weaponSlot < loadout.length) {
+        simulation.setInput(playerId, { weaponSlot });
+      }
+    };
+    
+    window.addEventListener('keydown', handleWeaponSelect);
+    return () => window.removeEventListener('keydown', handleWeaponSelect);
+  }, [enableKeyboardControls, simulation, playerId, loadout]);
+  
+  // Reload with R
+  useEffect(() => {
+    if (!enableKeyboardControls) return;
+    
+    const handleReloadDown = (e: KeyboardEvent) => {
+      if (e.code === 'KeyR') simulation.setInput(playerId, { reload: true });
+    };
+    const handleReloadUp = (e: KeyboardEvent) => {
+      if (e.code === 'KeyR') simulation.setInput(playerId, { reload: false });
+    };
+    
+    window.addEventListener('keydown', handleReloadDown);
+    window.addEventListener('keyup', handleReloadUp);
+    return () => {
+      window.removeEventListener('keydown', handleReloadDown);
+      window.removeEventListener('keyup', handleReloadUp);
+    };
+  }, [enableKeyboardControls, simulation, playerId]);
+  
+  // Reload and dry-fire feedback from the simulated weapon
+  useEffect(() => {
+    const unsubscribeReload = simulation.on('reloadStart', (event) => {
+      if (event.playerId !== playerId) return;
+      
+      if (reloadSoundRef.current) {
+        const sound = reloadSoundRef.current.cloneNode(true) as HTMLAudioElement;
+        sound.volume = reloadSoundRef.current.volume;
+        sound.play().catch(error => {
+          console.warn('Error playing reload sound:', error);
+        });
+      }
+      
+      // Stretch the reload animation to match the reload time
+      const action = actions[RELOAD_ANIMATION];
+      if (action) {
+        playAnimationRef.current(RELOAD_ANIMATION);
+        action.setLoop(THREE.LoopOnce, 1);
+        action.timeScale = action.getClip().duration / event.duration;
+      }
+    });
+    
+    const unsubscribeDryFire = simulation.on('dryFire', (event) => {
+      if (event.playerId !== playerId || !dryFireSoundRef.current) return;
+      
+      const sound = dryFireSoundRef.current.cloneNode(true) as HTMLAudioElement;
+      sound.volume = dryFireSoundRef.current.volume;
+      sound.play().catch(error => {
+        console.warn('Error playing dry fire sound:', error);
+      });
+    });
+    
+    return () => {
+      unsubscribeReload();
+      unsubscribeDryFire();
+    };
+  }, [simulation, playerId, actions]);
+  
   // Handle mouse for right-click jet pack
   useEffect(() => {
     const handleJetMouseDown = (event: MouseEvent) => {
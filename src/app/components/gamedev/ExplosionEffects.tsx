@@ -0,0 +1,95 @@
+'use client';
+
+import React, { useRef, useEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { GameSimulation } from '../simulation';
+
+interface ExplosionEffectsProps {
+  // Simulation whose explosions to show
+  simulation: GameSimulation;
+}
+
+// Explosions that can be on screen at once - the oldest is reused when they run out
+const MAX_EXPLOSIONS = 8;
+// How long a blast stays visible (seconds)
+const EXPLOSION_DURATION = 0.4;
+
+interface IActiveExplosion {
+  position: THREE.Vector3;
+  radius: number;
+  age: number;
+}
+
+/**
+ * Renders the simulation's explosions as a quickly expanding, fading fireball
+ * sized to the blast radius, with a flash of light. Purely visual - damage and
+ * knockback are handled by the simulation.
+ */
+const ExplosionEffects: React.FC<ExplosionEffectsProps> = ({ simulation }) => {
+  const meshRefs = useRef<(THREE.Mesh | null)[]>([]);
+  const lightRefs = useRef<(THREE.PointLight | null)[]>([]);
+  const explosionsRef = useRef<(IActiveExplosion | null)[]>(Array(MAX_EXPLOSIONS).fill(null));
+  const nextIndexRef = useRef(0);
+
+  useEffect(() => {
+    return simulation.on('explosion', (event) => {
+      explosionsRef.current[nextIndexRef.current] = {
+        position: event.position.clone(),
+        radius: event.radius,
+        age: 0
+      };
+      nextIndexRef.current = (nextIndexRef.current + 1) % MAX_EXPLOSIONS;
+    });
+  }, [simulation]);
+
+  useFrame((state, delta) => {
+    explosionsRef.current.forEach((explosion, index) => {
+      const mesh = meshRefs.current[index];
+      const light = lightRefs.current[index];
+      if (!mesh || !light) return;
+
+      if (!explosion || explosion.age >= EXPLOSION_DURATION) {
+        mesh.visible = false;
+        light.visible = false;
+        return;
+      }
+
+      explosion.age += delta;
+      const t = Math.min(1, explosion.age / EXPLOSION_DURATION);
+
+      // Grows fast to the full blast radius, fading out as it goes
+      const scale = Math.max(0.001, explosion.radius * (1 - Math.pow(1 - t, 3)));
+      mesh.visible = true;
+      mesh.position.copy(explosion.position);
+      mesh.scale.setScalar(scale);
+      (mesh.material as THREE.MeshBasicMaterial).opacity = 0.8 * (1 - t);
+
+      light.visible = true;
+      light.position.copy(explosion.position);
+      light.intensity = 30 * (1 - t);
+    });
+  });
+
+  return (
+    <>
+      {Array.from({ length: MAX_EXPLOSIONS }, (_, index) => (
+        <group key={index}>
+          <mesh ref={(mesh) => { meshRefs.current[index] = mesh; }} visible={false}>
+            <sphereGeometry args={[1, 16, 12]} />
+            <meshBasicMaterial color="#ff8a1f" transparent opacity={0} depthWrite={false} />
+          </mesh>
+          <pointLight
+            ref={(light) => { lightRefs.current[index] = light; }}
+            color="#ff7a00"
+            distance={12}
+            intensity={0}
+            visible={false}
+          />
+        </group>
+      ))}
+    </>
+  );
+};
+
+export default ExplosionEffects;
@@ -8,6 +8,19 @@ import CharacterController, { CharacterControllerRef } from './CharacterControll
 import SideViewCamera from './SideViewCamera';
 import { HUD } from '../hud';
 import ProjectileManager from './ProjectileManager';
+import ExplosionEffects from './ExplosionEffects';
+import BeamRenderer from './BeamRenderer';
+import ImpactEffects from './ImpactEffects';
+import SimulationRunner from './SimulationRunner';
+import SimulatedCharacter from './SimulatedCharacter';
+import { DEV_LEVEL, LevelGeometry } from '../level';
+import { GameSimulation, TeamId } from '../simulation';
+
+// A bot added from the debug panel
+interface IDevBot {
+  id: string;
+  team: TeamId;
+}
 
 // Simple debug panel for our development environment
 const DebugPanel = ({ children }: { children: React.ReactNode }) => {
@@ -141,12 +154,96 @@ const AnimationControls = () => {
         ))}
       </div>
       <div style={{ fontSize: '0.85rem', marginTop: '8px', opacity: 0.7 }}>
-        Tip: You can also use number keys 1-9 to quickly test animations
+        Tip: You can also use Shift + number keys 1-9 to quickly test animations
       </div>
     </div>
   );
 };
 
+// Start and stop a best-of-N match against the dummy, with short timers for testing,
+// and toggle friendly fire and respawning during rounds
+const MatchControls = ({ simulation }: { simulation: GameSimulation }) => {
+  const [running, setRunning] = useState(simulation.getMatch() !== null);
+  const [lastResult, setLastResult] = useState<string | null>(null);
+  const [friendlyFire, setFriendlyFire] = useState(simulation.friendlyFire);
+  const [respawns, setRespawns] = useState(false);
+
+  // Report how each round went
+  useEffect(() => {
+    const unsubscribeRound = simulation.on('roundEnd', (event) => {
+      setLastResult(`Round ${event.round}: ${event.winner ?? 'draw'} (${event.reason})`);
+    });
+    const unsubscribeMatch = simulation.on('matchEnd', (event) => {
+      setLastResult(`Match over: ${event.winner ?? 'draw'}`);
+    });
+
+    return () => {
+      unsubscribeRound();
+      unsubscribeMatch();
+    };
+  }, [simulation]);
+
+  const toggleMatch = () => {
+    if (running) {
+      simulation.endMatch();
+      setLastResult(null);
+    } else {
+      simulation.startMatch({ prepTime: 3, actionTime: 30, reviewTime: 3, respawns });
+    }
+    setRunning(!running);
+  };
+
+  return (
+    <div style={{ marginTop: '16px' }}>
+      <h4 style={{ 
+        fontSize: '1rem', 
+        fontWeight: 'bold', 
+        marginBottom: '8px',
+        color: '#00aa66'
+      }}>
+        Match
+      </h4>
+      <button
+        onClick={toggleMatch}
+        style={{
+          padding: '4px 8px',
+          backgroundColor: running ? '#993333' : '#009955',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: 'pointer',
+          fontSize: '0.85rem'
+        }}
+      >
+        {running ? 'End Match' : 'Start Match'}
+      </button>
+      <label style={{ display: 'block', fontSize: '0.85rem', marginTop: '8px' }}>
+        <input
+          type="checkbox"
+          checked={friendlyFire}
+          onChange={(event) => {
+            simulation.friendlyFire = event.target.checked;
+            setFriendlyFire(event.target.checked);
+          }}
+        />{' '}
+        Friendly fire
+      </label>
+      <label style={{ display: 'block', fontSize: '0.85rem', marginTop: '4px' }}>
+        <input
+          type="checkbox"
+          checked={respawns}
+          disabled={running}
+          onChange={(event) => setRespawns(event.target.checked)}
+        />{' '}
+        Respawn during rounds
+      </label>
+      {lastResult && (
+        <div style={{ fontSize: '0.85rem', marginTop: '8px', opacity: 0.7 }}>{lastResult}</div>
+      )}
+    </div>
+  );
+};
+
 // Debug info for character controller
 const CharacterDebugInfo = () => {
   const [debugInfo, setDebugInfo] = useState({
@@ -370,8 +467,69 @@ const CameraController = ({ characterRef }: { characterRef: React.RefObject<Char
   return null;
 };
 
-// Main scene component
-const Scene = () => {
+// Add bots to fight alongside or against, on whichever team is smaller
+const BotControls = ({ simulation, bots, onChange }: {
+  simulation: GameSimulation;
+  bots: IDevBot[];
+  onChange: (bots: IDevBot[]) => void;
+}) => {
+  const nextIdRef = useRef(1);
+
+  const addBot = () => {
+    onChange([...bots, { id: `bot-${nextIdRef.current++}`, team: simulation.getSmallestTeam() }]);
+  };
+
+  return (
+    <div style={{ marginTop: '16px' }}>
+      <h4 style={{ 
+        fontSize: '1rem', 
+        fontWeight: 'bold', 
+        marginBottom: '8px',
+        color: '#00aa66'
+      }}>
+        Bots ({bots.length})
+      </h4>
+      <button
+        onClick={addBot}
+        style={{
+          padding: '4px 8px',
+          marginRight: '8px',
+          backgroundColor: '#009955',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: 'pointer',
+          fontSize: '0.85rem'
+        }}
+      >
+        Add Bot
+      </button>
+      <button
+        onClick={() => onChange([])}
+        disabled={bots.length === 0}
+        style={{
+          padding: '4px 8px',
+          backgroundColor: '#993333',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: 'pointer',
+          fontSize: '0.85rem'
+        }}
+      >
+        Remove Bots
+      </button>
+    </div>
+  );
+};
+
+// Main scene component - a view onto the simulation
+const Scene = ({ simulation, playerTeam, dummyTeam, bots }: {
+  simulation: GameSimulation;
+  playerTeam: TeamId;
+  dummyTeam: TeamId | null;
+  bots: IDevBot[];
+}) => {
   const characterRef = useRef<CharacterControllerRef>(null);
   const [useSideCamera, setUseSideCamera] = useState(true);
   
@@ -409,6 +567,9 @@ const Scene = () => {
   
   return (
     <>
+      {/* Steps the headless simulation once per frame, before the views read it */}
+      <SimulationRunner simulation={simulation} />
+      
       <Environment />
       
       {/* Create a platform for the character to stand on */}
@@ -421,16 +582,39 @@ const Scene = () => {
         <meshStandardMaterial color="#444" />
       </mesh>
       
+      {/* Platforms, walls and ceilings the character collides with */}
+      <LevelGeometry colliders={DEV_LEVEL.colliders} />
+      
       {/* Character with controller */}
       <CharacterController 
         ref={characterRef}
-        position={[0, 0, 0]}
         scale={2}
         debug={true}
+        simulation={simulation}
+        team={playerTeam}
       />
       
-      {/* Add ProjectileManager for bullet rendering and physics */}
-      <ProjectileManager debug={true} />
+      {/* Training dummy to shoot at */}
+      {dummyTeam && (
+        <SimulatedCharacter simulation={simulation} playerId="dummy" position={[-5, 0, 0]} team={dummyTeam} />
+      )}
+      
+      {/* Bots, spawning in their team's zone */}
+      {bots.map(bot => (
+        <SimulatedCharacter key={bot.id} simulation={simulation} playerId={bot.id} team={bot.team} bot />
+      ))}
+      
+      {/* Add ProjectileManager for bullet rendering */}
+      <ProjectileManager simulation={simulation} debug={true} />
+      
+      {/* Grenade and rocket blasts */}
+      <ExplosionEffects simulation={simulation} />
+      
+      {/* Energy beams */}
+      <BeamRenderer simulation={simulation} />
+      
+      {/* Bullet ricochets, penetrations and hits on level geometry */}
+      <ImpactEffects simulation={simulation} />
       
       {/* New camera controller component */}
       {useSideCamera && <CameraController characterRef={characterRef} />}
@@ -438,9 +622,29 @@ const Scene = () => {
   );
 };
 
-// Main component that sets up the canvas and debug UI
-const GameDevEnvironment = () => {
+// Main component that sets up the canvas and debug UI. Plays for the given team - the
+// faction of the character picked on the select screen - or the smallest one without it.
+const GameDevEnvironment = ({ team }: { team?: TeamId }) => {
   const [showDebug, setShowDebug] = useState(true);
+  const [bots, setBots] = useState<IDevBot[]>([]);
+  
+  // One simulation for the lifetime of the environment
+  const [simulation] = useState(() => new GameSimulation({
+    colliders: DEV_LEVEL.colliders,
+    spawnZones: DEV_LEVEL.spawnZones,
+    navGraph: DEV_LEVEL.navGraph
+  }));
+  const [playerTeam] = useState(() => team ?? simulation.getSmallestTeam());
+  
+  // The dummy waits for the local player to join, so the smallest team is the other one
+  const [dummyTeam, setDummyTeam] = useState<TeamId | null>(null);
+  useEffect(() => {
+    return simulation.on('playerAdded', (event) => {
+      if (event.playerId === 'player') {
+        setDummyTeam(current => current ?? simulation.getSmallestTeam());
+      }
+    });
+  }, [simulation]);
 
   // Toggle debug panel visibility
   const toggleDebug = useCallback(() => {
@@ -462,7 +666,7 @@ const GameDevEnvironment = () => {
 
   return (
     <div style={{ width: '100%', height: '100vh', position: 'relative' }}>
-      <HUD />
+      <HUD simulation={simulation} playerId="player" />
       <Canvas 
         shadows 
         camera={{ 
@@ -477,7 +681,7 @@ const GameDevEnvironment = () => {
           outputColorSpace: THREE.SRGBColorSpace
         }}
       >
-        <Scene />
+        <Scene simulation={simulation} playerTeam={playerTeam} dummyTeam={dummyTeam} bots={bots} />
         <OrbitControls 
           makeDefault
           enabled={false}
@@ -504,9 +708,13 @@ const GameDevEnvironment = () => {
             </button>
           </div>
           <p>Use <strong>mouse</strong> to orbit camera</p>
-          <p>Use <strong>scroll</strong> to zoom</p>
+          <p>Use <strong>Ctrl + scroll</strong> to zoom</p>
+          <p>Use <strong>1-6</strong> or <strong>scroll</strong> to switch weapons</p>
+          <p>Press <strong>S</strong> to drop through see-through platforms</p>
           <p>Hold <strong>right click</strong> to pan</p>
           <CharacterDebugInfo />
+          <MatchControls simulation={simulation} />
+          <BotControls simulation={simulation} bots={bots} onChange={setBots} />
           <AnimationControls />
           <div style={{ marginTop: '16px', fontSize: '0.9rem', opacity: 0.7 }}>
             This is a development environment for building and testing game components in isolation.
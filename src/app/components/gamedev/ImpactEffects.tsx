@@ -0,0 +1,87 @@
+'use client';
+
+import React, { useRef, useEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { SurfaceMaterial } from '../physics';
+import { GameSimulation } from '../simulation';
+
+interface ImpactEffectsProps {
+  // Simulation whose bullet impacts to show
+  simulation: GameSimulation;
+}
+
+// Impacts that can be on screen at once - the oldest is reused when they run out
+const MAX_IMPACTS = 24;
+// How long an impact flash lasts (seconds)
+const IMPACT_DURATION = 0.2;
+
+// Sparks off metal, shards off glass, dust off concrete
+const IMPACT_COLORS: Record<SurfaceMaterial, string> = {
+  concrete: '#b0a898',
+  metal: '#ffd966',
+  glass: '#bfefff'
+};
+
+interface IActiveImpact {
+  position: THREE.Vector3;
+  size: number;
+  age: number;
+}
+
+/**
+ * Renders a short flash wherever a bullet ricochets off, passes through or stops
+ * in level geometry, coloured by the surface material. Ricochets get a bigger
+ * flash so they read clearly.
+ */
+const ImpactEffects: React.FC<ImpactEffectsProps> = ({ simulation }) => {
+  const meshRefs = useRef<(THREE.Mesh | null)[]>([]);
+  const impactsRef = useRef<(IActiveImpact | null)[]>(Array(MAX_IMPACTS).fill(null));
+  const nextIndexRef = useRef(0);
+
+  useEffect(() => {
+    return simulation.on('impact', ({ impact }) => {
+      const index = nextIndexRef.current;
+      impactsRef.current[index] = {
+        position: impact.point.clone(),
+        size: impact.type === 'ricochet' ? 0.35 : 0.2,
+        age: 0
+      };
+      const material = meshRefs.current[index]?.material as THREE.MeshBasicMaterial | undefined;
+      material?.color.set(IMPACT_COLORS[impact.material]);
+      nextIndexRef.current = (index + 1) % MAX_IMPACTS;
+    });
+  }, [simulation]);
+
+  useFrame((state, delta) => {
+    impactsRef.current.forEach((impact, index) => {
+      const mesh = meshRefs.current[index];
+      if (!mesh) return;
+
+      if (!impact || impact.age >= IMPACT_DURATION) {
+        mesh.visible = false;
+        return;
+      }
+
+      impact.age += delta;
+      const t = Math.min(1, impact.age / IMPACT_DURATION);
+      mesh.visible = true;
+      mesh.position.copy(impact.position);
+      mesh.scale.setScalar(Math.max(0.001, impact.size * (1 + t)));
+      (mesh.material as THREE.MeshBasicMaterial).opacity = 1 - t;
+    });
+  });
+
+  return (
+    <>
+      {Array.from({ length: MAX_IMPACTS }, (_, index) => (
+        <mesh key={index} ref={(mesh) => { meshRefs.current[index] = mesh; }} visible={false}>
+          <sphereGeometry args={[1, 8, 6]} />
+          <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+        </mesh>
+      ))}
+    </>
+  );
+};
+
+export default ImpactEffects;
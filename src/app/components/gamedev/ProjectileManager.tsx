@@ -1,49 +1,47 @@
 'use client';
 
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useEffect, useCallback } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { Projectile, ProjectileConfig } from '../physics/core/Projectile';
+import { ProjectileConfig } from '../physics/core/Projectile';
+import { GameSimulation, GAME, TeamId, TEAMS } from '../simulation';
 
 // Maximum number of projectiles to show at once
-const MAX_PROJECTILES = 100;
+const MAX_PROJECTILES = GAME.PROJECTILES.MAX_ACTIVE;
+
+// Bullets glow in the shooter's team colour; shots from players without a team stay orange
+type ProjectileTint = TeamId | 'none';
+const PROJECTILE_TINTS: Record<ProjectileTint, { color: string; emissive: string }> = {
+  none: { color: '#ffbb00', emissive: '#ff5500' },
+  syntax: { color: '#9cc6ff', emissive: TEAMS.syntax.color },
+  veil: { color: '#ffa3a3', emissive: TEAMS.veil.color }
+};
+const TINTS = Object.keys(PROJECTILE_TINTS) as ProjectileTint[];
 
 interface ProjectileManagerProps {
+  // Simulation that owns and steps the projectiles
+  simulation: GameSimulation;
   debug?: boolean;
 }
 
 /**
- * ProjectileManager handles spawning, updating, and rendering projectiles
- * It uses instanced meshes for performance
+ * ProjectileManager renders the simulation's projectiles
+ * It uses instanced meshes for performance - one per team tint
  */
 const ProjectileManager: React.FC<ProjectileManagerProps> = ({ 
+  simulation,
   debug = false 
 }) => {
-  // Reference to instanced mesh
-  const bulletInstanceRef = useRef<THREE.InstancedMesh>(null);
-  
-  // Array of active projectiles
-  const projectiles = useRef<Projectile[]>([]);
+  // Instanced mesh for each tint
+  const bulletInstanceRefs = useRef<Partial<Record<ProjectileTint, THREE.InstancedMesh | null>>>({});
   
   // Matrix object reused for updates
   const tempMatrix = useRef(new THREE.Matrix4());
   
   // Create function to spawn a new projectile
-  const spawnProjectile = (config: ProjectileConfig) => {
-    // Create a new projectile with the given config
-    const projectile = new Projectile(config);
-    
-    // Find an empty slot or replace the oldest projectile if full
-    if (projectiles.current.length >= MAX_PROJECTILES) {
-      // Find the first inactive projectile or the oldest one
-      const inactiveIndex = projectiles.current.findIndex(p => !p.isActive());
-      // Use the inactive projectile slot if found, otherwise use index 0 (oldest)
-      const replaceIndex = inactiveIndex !== -1 ? inactiveIndex : 0;
-      projectiles.current[replaceIndex] = projectile;
-    } else {
-      // Add new projectile
-      projectiles.current.push(projectile);
-    }
+  const spawnProjectile = useCallback((config: ProjectileConfig) => {
+    // The simulation owns the projectile from here on
+    const projectile = simulation.spawnProjectile(config);
     
     if (debug) {
       console.log(`Spawned projectile at: ${projectile.position.x.toFixed(2)}, ${projectile.position.y.toFixed(2)}, ${projectile.position.z.toFixed(2)}`);
@@ -51,7 +49,7 @@ const ProjectileManager: React.FC<ProjectileManagerProps> = ({
     }
     
     return projectile;
-  };
+  }, [simulation, debug]);
   
   // Set up global access to spawnProjectile
   useEffect(() => {
@@ -64,26 +62,26 @@ const ProjectileManager: React.FC<ProjectileManagerProps> = ({
       // @ts-ignore - Using window for debugging and cross-component access
       window.spawnProjectile = undefined;
     };
-  }, []);
+  }, [spawnProjectile]);
   
-  // Update projectiles each frame
-  useFrame((state, delta) => {
-    if (!bulletInstanceRef.current) return;
-    
-    // Limit delta time to prevent large jumps
-    const clampedDelta = Math.min(delta, 0.1);
+  // Render projectiles each frame (the simulation has already stepped them)
+  useFrame(() => {
+    // Blend between the last two steps when rendering
+    const alpha = simulation.getAlpha();
     
-    // Count active projectiles
-    let activeCount = 0;
+    // Count active projectiles per tint
+    const activeCounts: Record<ProjectileTint, number> = { none: 0, syntax: 0, veil: 0 };
     
-    // Update each projectile
-    projectiles.current.forEach((projectile, index) => {
+    // Render each projectile
+    simulation.getProjectiles().forEach((projectile, index) => {
       if (projectile.isActive()) {
-        // Update projectile physics
-        projectile.update(clampedDelta);
+        const owner = projectile.ownerId !== undefined ? simulation.getPlayer(projectile.ownerId) : undefined;
+        const tint: ProjectileTint = owner?.team ?? 'none';
+        const instances = bulletInstanceRefs.current[tint];
+        if (!instances) return;
         
-        // Get updated matrix
-        tempMatrix.current = projectile.getMatrix();
+        // Get interpolated matrix
+        tempMatrix.current = projectile.getMatrix(alpha);
         
         // Debug the matrix very occasionally
         if (debug && Math.random() < 0.01) {
@@ -94,50 +92,58 @@ const ProjectileManager: React.FC<ProjectileManagerProps> = ({
           console.log(`Projectile matrix ${index} position:`, position);
         }
         
-        // Apply to instanced mesh
-        bulletInstanceRef.current?.setMatrixAt(index, tempMatrix.current);
+        // Apply to the tint's instanced mesh - pack active projectiles into the first slots
+        instances.setMatrixAt(activeCounts[tint], tempMatrix.current);
         
         // Increment active count
-        activeCount++;
+        activeCounts[tint]++;
       }
     });
     
     // Debug active count occasionally
     if (debug && Math.random() < 0.05) {
-      console.log(`Active projectiles: ${activeCount}`);
+      console.log(`Active projectiles: ${TINTS.reduce((total, tint) => total + activeCounts[tint], 0)}`);
     }
     
-    // Set visible instance count
-    bulletInstanceRef.current.count = activeCount;
-    
-    // Mark instance matrix as needing update
-    bulletInstanceRef.current.instanceMatrix.needsUpdate = true;
+    TINTS.forEach(tint => {
+      const instances = bulletInstanceRefs.current[tint];
+      if (!instances) return;
+      
+      // Set visible instance count
+      instances.count = activeCounts[tint];
+      
+      // Mark instance matrix as needing update
+      instances.instanceMatrix.needsUpdate = true;
+    });
   });
   
   return (
     <>
-      {/* Instanced mesh for bullet rendering */}
-      <instancedMesh
-        ref={bulletInstanceRef}
-        args={[undefined, undefined, MAX_PROJECTILES]}
-        frustumCulled={false}
-        castShadow
-        receiveShadow
-      >
-        {/* Bullet geometry - slightly tapered cylinder for better trail effect */}
-        <cylinderGeometry args={[0.05, 0.12, 1, 8]} />
-        
-        {/* Bullet material with bright glowing trail effect */}
-        <meshStandardMaterial 
-          color="#ffbb00" 
-          emissive="#ff5500"
-          emissiveIntensity={4}
-          metalness={0.4}
-          roughness={0.2}
-          transparent={true}
-          opacity={0.9}
-        />
-      </instancedMesh>
+      {/* Instanced meshes for bullet rendering, one per tint */}
+      {TINTS.map(tint => (
+        <instancedMesh
+          key={tint}
+          ref={(mesh) => { bulletInstanceRefs.current[tint] = mesh; }}
+          args={[undefined, undefined, MAX_PROJECTILES]}
+          frustumCulled={false}
+          castShadow
+          receiveShadow
+        >
+          {/* Bullet geometry - slightly tapered cylinder for better trail effect */}
+          <cylinderGeometry args={[0.05, 0.12, 1, 8]} />
+          
+          {/* Bullet material with bright glowing trail effect */}
+          <meshStandardMaterial 
+            color={PROJECTILE_TINTS[tint].color} 
+            emissive={PROJECTILE_TINTS[tint].emissive}
+            emissiveIntensity={4}
+            metalness={0.4}
+            roughness={0.2}
+            transparent={true}
+            opacity={0.9}
+          />
+        </instancedMesh>
+      ))}
       
       {/* Add overall lighting effect to enhance bullets */}
       <pointLight 
@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useRef, useEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { PHYSICS } from '../physics';
+import { GameSimulation, Player, TeamId, TEAMS } from '../simulation';
+
+interface SimulatedCharacterProps {
+  // Simulation the character lives in
+  simulation: GameSimulation;
+  // Id of the character's player in the simulation
+  playerId: string;
+  // Spawn position (feet) - picked from the spawn zones when left out
+  position?: [number, number, number];
+  // Team fought for - also colours the body
+  team?: TeamId | null;
+  // Body colour when not on a team
+  color?: string;
+  // Driven by a bot instead of standing still
+  bot?: boolean;
+}
+
+// How long the body flashes after taking damage (seconds)
+const DAMAGE_FLASH_TIME = 0.15;
+// Width of the floating health bar
+const HEALTH_BAR_WIDTH = 1.2;
+// Body opacity while spawn protection lasts
+const PROTECTED_OPACITY = 0.5;
+
+/**
+ * Placeholder view for a simulated character without a model - training dummies,
+ * bots and other stand-ins. Registers its player with the simulation and draws a
+ * capsule matching the collision box, with a health bar, a flash on hits, a
+ * topple on death and a see-through body while spawn protected.
+ */
+const SimulatedCharacter: React.FC<SimulatedCharacterProps> = ({
+  simulation,
+  playerId,
+  position,
+  team = null,
+  color = '#8a8f99',
+  bot = false
+}) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const bodyRef = useRef<THREE.Group>(null);
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const healthFillRef = useRef<THREE.Mesh>(null);
+  const playerRef = useRef<Player | null>(null);
+  const flashTimeRef = useRef(0);
+
+  // Only the spawn position matters - later prop changes don't teleport the player
+  const spawnPositionRef = useRef(position);
+  const teamRef = useRef(team);
+  const botRef = useRef(bot);
+
+  // Register our player with the simulation
+  useEffect(() => {
+    const spawnPosition = spawnPositionRef.current ? new THREE.Vector3(...spawnPositionRef.current) : undefined;
+    playerRef.current = botRef.current
+      ? simulation.addBot(playerId, spawnPosition, teamRef.current)
+      : simulation.addPlayer(playerId, spawnPosition, teamRef.current);
+
+    return () => {
+      simulation.removePlayer(playerId);
+      playerRef.current = null;
+    };
+  }, [simulation, playerId]);
+
+  // Follow team changes after spawning
+  useEffect(() => {
+    teamRef.current = team;
+    simulation.setTeam(playerId, team);
+  }, [simulation, playerId, team]);
+
+  // Flash when hit
+  useEffect(() => {
+    return simulation.on('damage', (event) => {
+      if (event.playerId === playerId) {
+        flashTimeRef.current = DAMAGE_FLASH_TIME;
+      }
+    });
+  }, [simulation, playerId]);
+
+  useFrame((state, delta) => {
+    const player = playerRef.current;
+    if (!player || !groupRef.current || !bodyRef.current) return;
+
+    // Follow the body, blended between the last two steps
+    const renderPosition = player.body.getInterpolatedPosition(simulation.getAlpha());
+    groupRef.current.position.set(renderPosition.x, renderPosition.y, renderPosition.z);
+
+    // Topple over backwards on death, stand back up otherwise
+    const targetTilt = player.isAlive() ? 0 : player.facing * Math.PI / 2;
+    bodyRef.current.rotation.z = THREE.MathUtils.lerp(bodyRef.current.rotation.z, targetTilt, Math.min(1, delta * 6));
+
+    // Damage flash, and see-through while spawn protected
+    flashTimeRef.current = Math.max(0, flashTimeRef.current - delta);
+    if (materialRef.current) {
+      materialRef.current.emissiveIntensity = flashTimeRef.current > 0 ? 2 : 0;
+      materialRef.current.opacity = player.isSpawnProtected() ? PROTECTED_OPACITY : 1;
+    }
+
+    // Health bar shrinks from the right
+    if (healthFillRef.current) {
+      const ratio = Math.max(0, player.health.health / player.health.maxHealth);
+      healthFillRef.current.scale.x = Math.max(0.001, ratio);
+      healthFillRef.current.position.x = -(1 - ratio) * HEALTH_BAR_WIDTH / 2;
+      healthFillRef.current.visible = ratio > 0;
+    }
+  });
+
+  const radius = PHYSICS.BODY.WIDTH / 2;
+  const height = PHYSICS.BODY.HEIGHT;
+
+  return (
+    <group ref={groupRef} position={position}>
+      {/* Body - pivots at the feet so it topples over naturally */}
+      <group ref={bodyRef}>
+        <mesh position={[0, height / 2, 0]} castShadow receiveShadow>
+          <capsuleGeometry args={[radius, height - radius * 2, 4, 12]} />
+          <meshStandardMaterial
+            ref={materialRef}
+            color={team ? TEAMS[team].color : color}
+            emissive="#ff2200"
+            emissiveIntensity={0}
+            roughness={0.6}
+            transparent
+          />
+        </mesh>
+      </group>
+
+      {/* Floating health bar */}
+      <group position={[0, height + 0.5, 0]}>
+        <mesh>
+          <planeGeometry args={[HEALTH_BAR_WIDTH, 0.12]} />
+          <meshBasicMaterial color="#222" />
+        </mesh>
+        <mesh ref={healthFillRef} position={[0, 0, 0.01]}>
+          <planeGeometry args={[HEALTH_BAR_WIDTH, 0.12]} />
+          <meshBasicMaterial color="#00cc44" />
+        </mesh>
+      </group>
+    </group>
+  );
+};
+
+export default SimulatedCharacter;
@@ -0,0 +1,24 @@
+'use client';
+
+import React from 'react';
+import { useFrame } from '@react-three/fiber';
+import { GameSimulation } from '../simulation';
+
+interface SimulationRunnerProps {
+  simulation: GameSimulation;
+}
+
+/**
+ * Drives the headless GameSimulation from the R3F frame loop.
+ * Runs at a negative priority so every view reads state that has already been
+ * stepped this frame.
+ */
+const SimulationRunner: React.FC<SimulationRunnerProps> = ({ simulation }) => {
+  useFrame((state, delta) => {
+    simulation.update(delta);
+  }, -1);
+  
+  return null;
+};
+
+export default SimulationRunner;
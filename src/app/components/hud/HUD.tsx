@@ -1,16 +1,35 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import { GameSimulation, MatchPhase, TeamId, TEAMS, TEAM_IDS } from '../simulation';
 
 interface HUDProps {
-  // We'll add properties here as needed in the future
+  // Simulation to read the local player's state from
+  simulation?: GameSimulation;
+  // Id of the player this HUD belongs to
+  playerId?: string;
 }
 
-export const HUD: React.FC<HUDProps> = () => {
+export const HUD: React.FC<HUDProps> = ({ simulation, playerId = 'player' }) => {
   const [fuel, setFuel] = useState(100);
   const [health, setHealth] = useState(100);
+  const [armor, setArmor] = useState(0);
+  const [armorPercent, setArmorPercent] = useState(0);
   const [ammo, setAmmo] = useState(30);
+  const [reserve, setReserve] = useState(0);
+  const [reloadProgress, setReloadProgress] = useState<number | null>(null);
+  // Beam weapons show heat instead of ammo (null for everything else)
+  const [heat, setHeat] = useState<number | null>(null);
+  const [overheated, setOverheated] = useState(false);
+  const [weaponName, setWeaponName] = useState('');
   const [score, setScore] = useState(0);
+  // Rounds won by each team, when we're on one (null otherwise)
+  const [teamScores, setTeamScores] = useState<Record<TeamId, number> | null>(null);
+  // Round, phase and time left while a match is running (null outside a match)
+  const [matchStatus, setMatchStatus] = useState<{ round: number; rounds: number; phase: MatchPhase; timeLeft: number } | null>(null);
+  // Seconds until we respawn while dead (null when not waiting to), and whether spawn protection is up
+  const [respawnTimeLeft, setRespawnTimeLeft] = useState<number | null>(null);
+  const [spawnProtected, setSpawnProtected] = useState(false);
 
   // Poll for fuel level from the game environment
   useEffect(() => {
@@ -32,6 +51,143 @@ export const HUD: React.FC<HUDProps> = () => {
     return () => clearInterval(interval);
   }, []);
 
+  // Track health and armor from the simulation
+  useEffect(() => {
+    if (!simulation) return;
+    
+    const updateHealth = () => {
+      const player = simulation.getPlayer(playerId);
+      if (player) {
+        setHealth(Math.ceil(player.health.health));
+        setArmor(Math.ceil(player.health.armor));
+        setArmorPercent(player.health.maxArmor > 0 ? (player.health.armor / player.health.maxArmor) * 100 : 0);
+      }
+    };
+    
+    updateHealth();
+    const unsubscribeDamage = simulation.on('damage', (event) => {
+      if (event.playerId === playerId) updateHealth();
+    });
+    const unsubscribeAdded = simulation.on('playerAdded', (event) => {
+      if (event.playerId === playerId) updateHealth();
+    });
+    const unsubscribeSpawn = simulation.on('spawn', (event) => {
+      if (event.playerId === playerId) updateHealth();
+    });
+    
+    return () => {
+      unsubscribeDamage();
+      unsubscribeAdded();
+      unsubscribeSpawn();
+    };
+  }, [simulation, playerId]);
+
+  // Poll the weapon in hand, its ammo, reload progress and heat from the local player
+  useEffect(() => {
+    if (!simulation) return;
+    
+    const updateAmmo = () => {
+      const weapon = simulation.getPlayer(playerId)?.weapon;
+      if (!weapon) return;
+      setWeaponName(weapon.definition.name);
+      setAmmo(weapon.ammo);
+      setReserve(weapon.reserve);
+      setReloadProgress(weapon.isReloading() ? weapon.getReloadProgress() : null);
+      setHeat(weapon.config.beam ? weapon.heat : null);
+      setOverheated(weapon.overheated);
+    };
+    
+    updateAmmo();
+    const interval = setInterval(updateAmmo, 100);
+    return () => clearInterval(interval);
+  }, [simulation, playerId]);
+
+  // Poll the respawn countdown and spawn protection
+  useEffect(() => {
+    if (!simulation) return;
+    
+    const updateSpawn = () => {
+      setRespawnTimeLeft(simulation.getRespawnTimeLeft(playerId));
+      setSpawnProtected(simulation.getPlayer(playerId)?.isSpawnProtected() ?? false);
+    };
+    
+    updateSpawn();
+    const interval = setInterval(updateSpawn, 100);
+    return () => clearInterval(interval);
+  }, [simulation, playerId]);
+
+  // Poll the match for our side's rounds won (every team's, when we're on one) and the phase clock
+  useEffect(() => {
+    if (!simulation) return;
+    
+    const updateMatch = () => {
+      const match = simulation.getMatch();
+      if (!match) {
+        setMatchStatus(null);
+        setTeamScores(null);
+        return;
+      }
+      const side = match.getSideOf(playerId);
+      setScore(side !== null ? match.getScore(side) : 0);
+      setTeamScores(simulation.getPlayer(playerId)?.team
+        ? { syntax: match.getScore('syntax'), veil: match.getScore('veil') }
+        : null);
+      setMatchStatus({
+        round: match.round,
+        rounds: match.config.rounds,
+        phase: match.phase,
+        timeLeft: match.getTimeLeft()
+      });
+    };
+    
+    updateMatch();
+    const interval = setInterval(updateMatch, 100);
+    return () => clearInterval(interval);
+  }, [simulation, playerId]);
+
+  // Round number, phase and countdown, e.g. "ROUND 2/5 · PREP 0:12"
+  const renderMatchStatus = () => {
+    if (!matchStatus) return null;
+    const { round, rounds, phase, timeLeft } = matchStatus;
+    const seconds = Math.ceil(timeLeft);
+    const clock = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+    
+    return (
+      <span style={{ color: phase === 'action' ? 'white' : 'rgb(255, 165, 0)', fontSize: '12px', textTransform: 'uppercase' }}>
+        {phase === 'ended' ? 'MATCH OVER' : `ROUND ${round}/${rounds} · ${phase} ${clock}`}
+      </span>
+    );
+  };
+
+  // "RESPAWN IN 3" while dead, "PROTECTED" just after spawning
+  const renderSpawnStatus = () => {
+    if (respawnTimeLeft !== null) {
+      return (
+        <span style={{ color: '#ff4444', fontWeight: 'bold', fontSize: '14px' }}>
+          RESPAWN IN {Math.ceil(respawnTimeLeft)}
+        </span>
+      );
+    }
+    if (spawnProtected) {
+      return <span style={{ color: '#3fd8ff', fontWeight: 'bold', fontSize: '14px' }}>PROTECTED</span>;
+    }
+    return null;
+  };
+
+  // Both teams' rounds won, each in its team colour
+  const renderTeamScores = (scores: Record<TeamId, number>) => {
+    return (
+      <span style={{ fontWeight: 'bold', fontSize: '18px' }}>
+        {TEAM_IDS.map((team, index) => (
+          <React.Fragment key={team}>
+            {index > 0 && <span style={{ color: 'white' }}> : </span>}
+            <span style={{ color: TEAMS[team].color }}>{TEAMS[team].name.toUpperCase()} {scores[team]}</span>
+          </React.Fragment>
+        ))}
+      </span>
+    );
+  };
+
   // Create a simple fuel bar
   const renderFuelGauge = () => {
     return (
@@ -97,30 +253,78 @@ export const HUD: React.FC<HUDProps> = () => {
           justifyContent: 'center'
         }}>
           <span style={{ color: 'white', fontWeight: 'bold', textShadow: '0 0 3px black' }}>
-            HEALTH: {health}
+            HEALTH: {health}{armor > 0 ? ` | ARMOR: ${armor}` : ''}
           </span>
         </div>
+        {/* Armor strip along the bottom of the health bar */}
+        <div style={{
+          position: 'absolute',
+          bottom: 0,
+          left: 0,
+          width: `${armorPercent}%`,
+          height: '4px',
+          backgroundColor: '#3399ff',
+          transition: 'width 0.3s ease'
+        }} />
       </div>
     );
   };
 
-  // Create ammo display
+  // Create heat display for beam weapons - fills up while firing, red once overheated
+  const renderHeat = (heatLevel: number) => {
+    const heatColor = overheated ? '#ff0000' : '#3fd8ff';
+    
+    return (
+      <div style={{ 
+        width: '70px', 
+        height: '70px', 
+        borderRadius: '50%', 
+        backgroundColor: '#222', 
+        border: `2px solid ${heatColor}`,
+        backgroundImage: `conic-gradient(${overheated ? 'rgba(255, 0, 0, 0.45)' : 'rgba(63, 216, 255, 0.35)'} ${heatLevel * 360}deg, transparent 0deg)`,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        boxShadow: 'inset 0 0 15px rgba(63, 216, 255, 0.3)'
+      }}>
+        {overheated ? (
+          <span style={{ color: '#ff4444', fontWeight: 'bold', fontSize: '10px' }}>OVERHEAT</span>
+        ) : (
+          <span style={{ color: 'white', fontWeight: 'bold', fontSize: '18px' }}>{Math.round(heatLevel * 100)}%</span>
+        )}
+        <span style={{ color: 'white', fontSize: '12px' }}>HEAT</span>
+      </div>
+    );
+  };
+
+  // Create ammo display - magazine count over reserve, with a progress ring while reloading
   const renderAmmo = () => {
+    const isReloading = reloadProgress !== null;
+    const ringColor = ammo === 0 && !isReloading ? '#ff0000' : 'rgb(255, 165, 0)';
+    
     return (
       <div style={{ 
         width: '70px', 
         height: '70px', 
         borderRadius: '50%', 
         backgroundColor: '#222', 
-        border: '2px solid rgb(255, 165, 0)',
+        border: `2px solid ${ringColor}`,
+        backgroundImage: isReloading
+          ? `conic-gradient(rgba(255, 165, 0, 0.35) ${reloadProgress * 360}deg, transparent 0deg)`
+          : undefined,
         display: 'flex',
         flexDirection: 'column',
         alignItems: 'center',
         justifyContent: 'center',
         boxShadow: 'inset 0 0 15px rgba(255, 165, 0, 0.3)'
       }}>
-        <span style={{ color: 'white', fontWeight: 'bold', fontSize: '20px' }}>{ammo}</span>
-        <span style={{ color: 'white', fontSize: '12px' }}>AMMO</span>
+        {isReloading ? (
+          <span style={{ color: 'white', fontWeight: 'bold', fontSize: '11px' }}>RELOAD</span>
+        ) : (
+          <span style={{ color: ammo === 0 ? '#ff4444' : 'white', fontWeight: 'bold', fontSize: '20px' }}>{ammo}</span>
+        )}
+        <span style={{ color: 'white', fontSize: '12px' }}>/ {reserve}</span>
       </div>
     );
   };
@@ -144,18 +348,30 @@ export const HUD: React.FC<HUDProps> = () => {
       }}
     >
       <div style={{ display: 'flex', alignItems: 'center', gap: '20px' }}>
-        {renderAmmo()}
+        {heat !== null ? renderHeat(heat) : renderAmmo()}
+        {weaponName && (
+          <span style={{ color: 'white', fontWeight: 'bold', fontSize: '14px', textTransform: 'uppercase' }}>
+            {weaponName}
+          </span>
+        )}
         {renderHealthBar()}
         {renderFuelGauge()}
+        {renderSpawnStatus()}
       </div>
       <div style={{ 
         backgroundColor: '#222', 
         padding: '8px 16px',
         borderRadius: '4px',
         border: '1px solid rgb(255, 165, 0)',
-        boxShadow: '0 0 8px rgba(255, 165, 0, 0.2)'
+        boxShadow: '0 0 8px rgba(255, 165, 0, 0.2)',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'flex-end'
       }}>
-        <span style={{ color: 'white', fontWeight: 'bold', fontSize: '18px' }}>SCORE: {score}</span>
+        {renderMatchStatus()}
+        {teamScores ? renderTeamScores(teamScores) : (
+          <span style={{ color: 'white', fontWeight: 'bold', fontSize: '18px' }}>SCORE: {score}</span>
+        )}
       </div>
     </div>
   );
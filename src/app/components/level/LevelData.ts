@@ -0,0 +1,45 @@
+import { ICollider, PHYSICS, createBoxCollider } from '../physics';
+import { INavGraphData, ISpawnZone } from '../simulation';
+import devNavGraph from './nav/dev.json';
+
+// Map description shared by the physics layer (colliders) and the scene (rendering)
+export interface ILevelData {
+  id: string;
+  name: string;
+  // Axis-aligned platforms, walls and ceilings
+  colliders: ICollider[];
+  // Where players (re)spawn - each team starts the first half of a match in its own zones
+  spawnZones?: ISpawnZone[];
+  // Bot nav graph baked from the colliders by `npm run nav:generate` (nav/<id>.json)
+  navGraph?: INavGraphData;
+}
+
+// Small test map for the game dev environment:
+// a step to jump onto, a high ledge to jet up to with a glass window on it, a metal
+// overhang to bump your head on and a metal wall on the far left to ricochet shots off.
+// Off to the right, set into the floor: an ice rink, a conveyor and a jump pad, with a
+// one-way platform above the ice to jump up through and drop back down from. Syntax spawn
+// in the open left of the step, Veil under the overhang.
+export const DEV_LEVEL: ILevelData = {
+  id: 'dev',
+  name: 'Dev Sandbox',
+  colliders: [
+    createBoxCollider({ x: 7, y: 0.75 }, { x: 4, y: 1.5 }, 'step'),
+    createBoxCollider({ x: 14, y: 5.25 }, { x: 6, y: 0.5 }, 'ledge-high'),
+    createBoxCollider({ x: 12, y: 6.75 }, { x: 0.15, y: 2.5 }, 'ledge-window', 'glass'),
+    createBoxCollider({ x: -6, y: 5.5 }, { x: 5, y: 0.5 }, 'overhang', 'metal'),
+    createBoxCollider({ x: -12, y: 4 }, { x: 1, y: 8 }, 'wall-left', 'metal'),
+    createBoxCollider({ x: 22, y: -0.25 }, { x: 6, y: 0.5 }, 'ice', 'concrete', PHYSICS.MOVEMENT_SURFACES.ICE),
+    createBoxCollider({ x: 29, y: -0.25 }, { x: 6, y: 0.5 }, 'conveyor', 'metal', PHYSICS.MOVEMENT_SURFACES.CONVEYOR_LEFT),
+    createBoxCollider({ x: 34, y: -0.25 }, { x: 2, y: 0.5 }, 'jump-pad', 'metal', PHYSICS.MOVEMENT_SURFACES.JUMP_PAD),
+    { ...createBoxCollider({ x: 22, y: 2.35 }, { x: 4, y: 0.3 }, 'ice-platform'), oneWay: true }
+  ],
+  spawnZones: [
+    { id: 'syntax-start', team: 'syntax', min: { x: -1, y: 0 }, max: { x: 4, y: 3.6 } },
+    { id: 'veil-start', team: 'veil', min: { x: -11, y: 0 }, max: { x: -6, y: 3.6 } }
+  ],
+  navGraph: devNavGraph as INavGraphData
+};
+
+// Every level, for tools that work through all of them
+export const LEVELS: ILevelData[] = [DEV_LEVEL];
@@ -0,0 +1,72 @@
+'use client';
+
+import React from 'react';
+import { ICollider, IMovementSurface, SurfaceMaterial, DEFAULT_SURFACE_MATERIAL } from '../physics';
+
+interface LevelGeometryProps {
+  colliders: ICollider[];
+  // How far the boxes extend into the screen - purely visual, collision is 2D
+  depth?: number;
+}
+
+// How each surface material looks
+const MATERIAL_STYLES: Record<SurfaceMaterial, { color: string; metalness: number; roughness: number; opacity: number }> = {
+  concrete: { color: '#1c2238', metalness: 0.3, roughness: 0.7, opacity: 1 },
+  metal: { color: '#4a5468', metalness: 0.9, roughness: 0.3, opacity: 1 },
+  glass: { color: '#9fd8ff', metalness: 0.1, roughness: 0.05, opacity: 0.3 }
+};
+
+// Colour of the top edge, so special movement surfaces stand out from plain platforms
+function getSurfaceEdgeColor(surface?: IMovementSurface): string {
+  if (!surface) return '#00e5ff';
+  if (surface.launch) return '#ff3df2';               // Jump pad
+  if (surface.velocity) return '#ffb800';             // Conveyor
+  if ((surface.friction ?? 1) < 1) return '#e0f7ff';  // Ice
+  if ((surface.speed ?? 1) < 1) return '#7a9a2a';     // Sticky
+  return '#00e5ff';
+}
+
+/**
+ * Renders level colliders as simple boxes so what you see is what you collide with
+ */
+const LevelGeometry: React.FC<LevelGeometryProps> = ({ 
+  colliders, 
+  depth = 4 
+}) => {
+  return (
+    <group>
+      {colliders.map((collider, index) => {
+        const width = collider.max.x - collider.min.x;
+        const height = collider.max.y - collider.min.y;
+        const centerX = (collider.min.x + collider.max.x) / 2;
+        const centerY = (collider.min.y + collider.max.y) / 2;
+        const style = MATERIAL_STYLES[collider.material ?? DEFAULT_SURFACE_MATERIAL];
+        // One-way platforms are see-through so they read as something you can pass through
+        const opacity = collider.oneWay ? Math.min(style.opacity, 0.5) : style.opacity;
+        
+        return (
+          <group key={collider.id ?? index} position={[centerX, centerY, 0]}>
+            <mesh castShadow receiveShadow>
+              <boxGeometry args={[width, height, depth]} />
+              <meshStandardMaterial
+                color={style.color}
+                metalness={style.metalness}
+                roughness={style.roughness}
+                transparent={opacity < 1}
+                opacity={opacity}
+              />
+            </mesh>
+            
+            {/* Glowing edge along the top surface so platforms read clearly from the side */}
+            <mesh position={[0, height / 2 + 0.01, 0]}>
+              <boxGeometry args={[width, 0.02, depth]} />
+              <meshBasicMaterial color={getSurfaceEdgeColor(collider.surface)} />
+            </mesh>
+          </group>
+        );
+      })}
+    </group>
+  );
+};
+
+export default LevelGeometry;
@@ -0,0 +1,2 @@
+export * from './LevelData';
+export { default as LevelGeometry } from './LevelGeometry';
@@ -0,0 +1,151 @@
+// Axis-aligned collision geometry for the side-scrolling play field.
+// Everything collides on the XY plane - Z is only used for rendering depth.
+
+export interface IBounds {
+    min: { x: number; y: number };
+    max: { x: number; y: number };
+}
+
+// What level geometry is made of - decides what bullets do when they hit it
+// (see PHYSICS.SURFACES and resolveImpact)
+export type SurfaceMaterial = 'concrete' | 'metal' | 'glass';
+
+export const DEFAULT_SURFACE_MATERIAL: SurfaceMaterial = 'concrete';
+
+// How standing on a collider changes movement. Every field is optional - anything left
+// out behaves like plain ground. See PHYSICS.MOVEMENT_SURFACES for ready-made presets.
+export interface IMovementSurface {
+    friction?: number;      // Multiplier on ground friction (ice well below 1)
+    acceleration?: number;  // Multiplier on ground acceleration
+    speed?: number;         // Multiplier on run speed (sticky floors below 1)
+    jump?: number;          // Multiplier on jump force
+    velocity?: number;      // Horizontal speed the surface carries you at (conveyors, + is right)
+    launch?: number;        // Upward speed you're thrown at on touching it (jump pads)
+}
+
+// Static level geometry (platforms, walls, ceilings) supplied by the scene
+export interface ICollider extends IBounds {
+    id?: string;
+    material?: SurfaceMaterial; // Defaults to DEFAULT_SURFACE_MATERIAL
+    surface?: IMovementSurface; // Plain ground when left out
+    oneWay?: boolean;           // Only solid from above - jump up through it, drop down through it
+}
+
+// Create a box collider from its center point and full size
+export function createBoxCollider(
+    center: { x: number; y: number },
+    size: { x: number; y: number },
+    id?: string,
+    material?: SurfaceMaterial,
+    surface?: IMovementSurface
+): ICollider {
+    return {
+        id,
+        material,
+        surface,
+        min: { x: center.x - size.x / 2, y: center.y - size.y / 2 },
+        max: { x: center.x + size.x / 2, y: center.y + size.y / 2 }
+    };
+}
+
+// Strict overlap test - boxes that only touch along an edge do not overlap,
+// which lets a body stand on (or slide along) a collider without snagging
+export function boundsOverlap(a: IBounds, b: IBounds): boolean {
+    return a.min.x < b.max.x &&
+        a.max.x > b.min.x &&
+        a.min.y < b.max.y &&
+        a.max.y > b.min.y;
+}
+
+// Damageable volume that projectiles can hit, e.g. a character's body
+export interface IHitbox extends IBounds {
+    id: string;
+    team?: string;            // Characters sharing a team don't home in on each other
+}
+
+// Result of sweeping a segment against a box
+export interface ISweepHit {
+    time: number;                     // 0-1 fraction along the segment where it first touches
+    point: { x: number; y: number };  // Segment position at the moment of impact
+    normal: { x: number; y: number }; // Face normal of the box at the impact point
+}
+
+// Sweep the segment start -> end against the bounds expanded by radius (slab method).
+// Returns the first contact, or null if the segment misses. A segment that starts
+// inside the box hits immediately, with the normal facing back along the segment.
+export function sweepSegment(
+    start: { x: number; y: number },
+    end: { x: number; y: number },
+    bounds: IBounds,
+    radius: number = 0
+): ISweepHit | null {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const minX = bounds.min.x - radius;
+    const maxX = bounds.max.x + radius;
+    const minY = bounds.min.y - radius;
+    const maxY = bounds.max.y + radius;
+
+    let entry = 0;
+    let exit = 1;
+    let normal = { x: 0, y: 0 };
+
+    // X slab
+    if (dx === 0) {
+        if (start.x <= minX || start.x >= maxX) return null;
+    } else {
+        const t1 = (minX - start.x) / dx;
+        const t2 = (maxX - start.x) / dx;
+        const near = Math.min(t1, t2);
+        const far = Math.max(t1, t2);
+        if (near > entry) {
+            entry = near;
+            normal = { x: dx > 0 ? -1 : 1, y: 0 };
+        }
+        exit = Math.min(exit, far);
+        if (entry > exit) return null;
+    }
+
+    // Y slab
+    if (dy === 0) {
+        if (start.y <= minY || start.y >= maxY) return null;
+    } else {
+        const t1 = (minY - start.y) / dy;
+        const t2 = (maxY - start.y) / dy;
+        const near = Math.min(t1, t2);
+        const far = Math.max(t1, t2);
+        if (near > entry) {
+            entry = near;
+            normal = { x: 0, y: dy > 0 ? -1 : 1 };
+        }
+        exit = Math.min(exit, far);
+        if (entry > exit) return null;
+    }
+
+    if (exit <= 0) return null;
+
+    if (normal.x === 0 && normal.y === 0) {
+        // Started inside - push back the way we came
+        const length = Math.hypot(dx, dy);
+        normal = length > 0 ? { x: -dx / length, y: -dy / length } : { x: 0, y: 1 };
+    }
+
+    return {
+        time: entry,
+        point: { x: start.x + dx * entry, y: start.y + dy * entry },
+        normal
+    };
+}
+
+// sweepSegment against level geometry. One-way colliders only stop what comes down onto
+// their top - shots, beams and blasts from below or the side go straight through.
+export function sweepCollider(
+    start: { x: number; y: number },
+    end: { x: number; y: number },
+    collider: ICollider,
+    radius: number = 0
+): ISweepHit | null {
+    const hit = sweepSegment(start, end, collider, radius);
+    if (hit && collider.oneWay && hit.normal.y !== 1) return null;
+    return hit;
+}
@@ -0,0 +1,40 @@
+import { PHYSICS } from './PhysicsConstants';
+
+// Accumulator-based fixed timestep.
+// Render frames arrive with whatever delta the browser gives us; the simulation
+// always advances in identical FIXED_TIMESTEP slices, so jump heights, fuel use and
+// projectile arcs come out the same at 30, 60 or 144 fps.
+export class FixedTimestep {
+    readonly step: number;
+    private accumulator: number = 0;
+
+    constructor(step: number = PHYSICS.TIME.FIXED_TIMESTEP) {
+        this.step = step;
+    }
+
+    // Add a frame's worth of real time and run as many whole fixed steps as fit.
+    // Returns the number of steps that were run.
+    advance(frameDelta: number, stepFn: (step: number) => void): number {
+        // Clamp long frames (tab switches, hitches) so we don't try to catch up forever
+        this.accumulator += Math.min(frameDelta, PHYSICS.TIME.MAX_FRAME_DELTA);
+
+        let steps = 0;
+        while (this.accumulator >= this.step) {
+            stepFn(this.step);
+            this.accumulator -= this.step;
+            steps++;
+        }
+
+        return steps;
+    }
+
+    // How far we are between the last step and the next one (0 to 1).
+    // Renderers blend previous and current simulation state by this amount.
+    getAlpha(): number {
+        return this.accumulator / this.step;
+    }
+
+    reset() {
+        this.accumulator = 0;
+    }
+}
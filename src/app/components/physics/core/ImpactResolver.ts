@@ -0,0 +1,61 @@
+import * as THREE from 'three';
+import { PHYSICS } from './PhysicsConstants';
+import { IBounds, SurfaceMaterial } from './Collider';
+
+// What happens to a bullet that hits a surface
+export type ImpactResult =
+    | { type: 'ricochet'; direction: THREE.Vector3; speedRetained: number; damageRetained: number }
+    | { type: 'penetrate'; exitPoint: THREE.Vector3; speedRetained: number; damageRetained: number }
+    | { type: 'stop' };
+
+// Decide a bullet's fate from the surface material and how it struck it.
+// direction is the (unit) direction of travel, point and normal where it touched the
+// surface, and bounds the box it touched (expanded by radius) - needed to work out how
+// much material lies along the path. Surfaces without bounds (the ground) can't be
+// passed through.
+export function resolveImpact(
+    direction: THREE.Vector3,
+    point: THREE.Vector3,
+    normal: THREE.Vector3,
+    material: SurfaceMaterial,
+    bounds?: IBounds,
+    radius: number = 0
+): ImpactResult {
+    const surface = PHYSICS.SURFACES[material];
+
+    // Angle between the path and the surface - 0 is grazing, PI/2 head on
+    const grazingAngle = Math.asin(Math.min(1, Math.abs(direction.dot(normal))));
+    if (grazingAngle < surface.RICOCHET_ANGLE) {
+        return {
+            type: 'ricochet',
+            direction: direction.clone().reflect(normal),
+            speedRetained: surface.SPEED_RETAINED,
+            damageRetained: surface.DAMAGE_RETAINED
+        };
+    }
+
+    if (surface.PENETRATION_DEPTH > 0 && bounds) {
+        const depth = getExitDistance(point, direction, bounds, radius);
+        if (depth <= surface.PENETRATION_DEPTH) {
+            return {
+                type: 'penetrate',
+                exitPoint: point.clone().addScaledVector(direction, depth),
+                speedRetained: surface.SPEED_RETAINED,
+                damageRetained: surface.DAMAGE_RETAINED
+            };
+        }
+    }
+
+    return { type: 'stop' };
+}
+
+// Distance from a point inside (or on) the box to where a ray in direction leaves it
+function getExitDistance(point: THREE.Vector3, direction: THREE.Vector3, bounds: IBounds, radius: number): number {
+    const exitX = direction.x > 0 ? (bounds.max.x + radius - point.x) / direction.x
+        : direction.x < 0 ? (bounds.min.x - radius - point.x) / direction.x
+        : Infinity;
+    const exitY = direction.y > 0 ? (bounds.max.y + radius - point.y) / direction.y
+        : direction.y < 0 ? (bounds.min.y - radius - point.y) / direction.y
+        : Infinity;
+    return Math.max(0, Math.min(exitX, exitY));
+}
@@ -1,47 +1,115 @@
 import { PHYSICS, IPhysicsState } from './PhysicsConstants';
+import { ICollider, IBounds, IMovementSurface, boundsOverlap } from './Collider';
 import * as THREE from 'three';
 
+// Discrete things that happened during an update, for animation and gameplay hooks
+export type PhysicsEvent =
+    | { type: 'jump' }
+    | { type: 'wallJump'; direction: -1 | 1 } // direction we were launched in
+    // Hard landings stagger (see PHYSICS.FALL_DAMAGE); cushioned ones come down from a jump pad's throw and never hurt
+    | { type: 'land'; impactSpeed: number; hard: boolean; cushioned: boolean }
+    | { type: 'launch'; speed: number }; // thrown upwards by a jump pad
+
 export class PhysicsBody {
     private state: IPhysicsState;
     private jumpPressed: boolean = false;
     private jetActive: boolean = false;
+    // Level geometry the body collides against (in addition to the infinite floor)
+    private colliders: ICollider[];
+    // Horizontal speed the body accelerates towards while a direction is held
+    private runSpeed: number = PHYSICS.MOVE.RUN_SPEED;
+    // Position at the start of the last update, for render interpolation
+    private previousPosition: { x: number; y: number; z: number };
+    // Time left during which horizontal input is ignored after a wall jump
+    private wallJumpLockTime: number = 0;
+    // Time left to still jump after leaving the ground without jumping
+    private coyoteTime: number = 0;
+    // Still holding the button from the current jump, so it can be extended
+    private jumpHeld: boolean = false;
+    // Time left recovering from a hard landing - no movement or jumping meanwhile
+    private staggerTime: number = 0;
+    // Thrown up by a jump pad and not down yet - that landing doesn't count as a fall
+    private launched: boolean = false;
+    // Collider we're standing on (null on the floor or in the air)
+    private groundCollider: ICollider | null = null;
+    // One-way platform we're dropping down through - ignored until we're below it, or back above it
+    private dropThroughCollider: ICollider | null = null;
+    // Still holding the drop button, so each press drops through one platform only
+    private dropPressed: boolean = false;
+    // Events raised during the last update
+    private events: PhysicsEvent[] = [];
 
-    constructor(initialPosition: THREE.Vector3) {
-        this.state = {
-            position: {
-                x: initialPosition.x,
-                y: initialPosition.y,
-                z: initialPosition.z
-            },
-            velocity: { x: 0, y: 0, z: 0 },
-            grounded: false,
-            jumpHoldTime: 0,
-            lastJumpTime: 0,
-            jumpBufferTime: 0,
-            jetActive: false,
-            fuel: PHYSICS.JET.FUEL.MAX,
-            isRecharging: false
-        };
+    constructor(initialPosition: THREE.Vector3, colliders: ICollider[] = []) {
+        this.colliders = colliders;
+        this.state = createInitialState(initialPosition);
+        this.previousPosition = { ...this.state.position };
     }
 
-    update(deltaTime: number, input: { jump: boolean, jet?: boolean }) {
-        // Store previous state for collision resolution
-        const previousY = this.state.position.y;
+    // Advance the body by one step. Call this with a fixed deltaTime (see FixedTimestep)
+    // so the outcome doesn't depend on the render frame rate.
+    update(deltaTime: number, input: { jump: boolean, jet?: boolean, moveX?: number, drop?: boolean }) {
+        this.previousPosition = { ...this.state.position };
+        this.events = [];
+
+        const moveX = input.moveX ?? 0;
+
+        // Horizontal movement: acceleration, friction and air control
+        // (input is briefly ignored after a wall jump so we don't steer straight back into the wall,
+        // and while recovering from a hard landing)
+        this.wallJumpLockTime = Math.max(0, this.wallJumpLockTime - deltaTime);
+        this.staggerTime = Math.max(0, this.staggerTime - deltaTime);
+        const inputLocked = this.wallJumpLockTime > 0 || this.staggerTime > 0;
+        this.applyHorizontalMovement(deltaTime, inputLocked ? 0 : moveX);
 
         // Handle jumping (separate from jetpack)
-        if (input.jump && !this.jumpPressed && this.state.grounded) {
-            // Initial jump - only allowed when grounded
-            this.state.velocity.y = PHYSICS.JUMP.FORCE;
-            this.state.grounded = false;
+        // A press is remembered for a short while, so pressing jump just before landing
+        // (or just before touching a wall) still jumps
+        if (input.jump && !this.jumpPressed) {
             this.jumpPressed = true;
-            // Reset jump hold time for new jump
-            this.state.jumpHoldTime = 0;
-        } else if (input.jump && this.jumpPressed) {
-            // Already jumping and still holding the button - do nothing
-            // This prevents repeated jumping while holding space
-        } else if (!input.jump) {
-            // Button released, reset the jump pressed state
-            this.jumpPressed = false;
+            this.state.jumpBufferTime = PHYSICS.JUMP.BUFFER_TIME;
+        } else {
+            if (!input.jump) {
+                // Button released, reset the jump pressed state
+                this.jumpPressed = false;
+            }
+            this.state.jumpBufferTime = Math.max(0, this.state.jumpBufferTime - deltaTime);
+        }
+
+        // Dropping down through the one-way platform we're standing on
+        if (input.drop && !this.dropPressed && this.state.grounded && this.groundCollider?.oneWay) {
+            this.dropThroughCollider = this.groundCollider;
+            this.state.grounded = false;
+            this.groundCollider = null;
+            this.coyoteTime = 0;
+            this.state.jumpBufferTime = 0;
+        }
+        this.dropPressed = input.drop ?? false;
+
+        // Coyote time - we can still jump briefly after walking off a ledge
+        const canGroundJump = (this.state.grounded || this.coyoteTime > 0) && this.staggerTime === 0;
+
+        if (this.state.jumpBufferTime > 0 && canGroundJump) {
+            this.state.velocity.y = PHYSICS.JUMP.FORCE * (this.getGroundSurface()?.jump ?? 1);
+            this.startJump();
+            this.events.push({ type: 'jump' });
+        } else if (this.state.jumpBufferTime > 0 && this.state.wallContact !== 0) {
+            // Wall jump - kick off away from the wall we're touching
+            const direction = -this.state.wallContact as -1 | 1;
+            this.state.velocity.x = direction * PHYSICS.WALL.JUMP_FORCE_X;
+            this.state.velocity.y = PHYSICS.WALL.JUMP_FORCE_Y;
+            this.startJump();
+            this.wallJumpLockTime = PHYSICS.WALL.JUMP_CONTROL_LOCK;
+            this.events.push({ type: 'wallJump', direction });
+        } else if (this.jumpHeld) {
+            // Variable jump height - holding the button keeps pushing us up for a short while,
+            // letting go (or running out of hold time) leaves the rest to gravity
+            if (input.jump && this.state.velocity.y > 0 && this.state.jumpHoldTime < PHYSICS.JUMP.MAX_HOLD_TIME) {
+                const holdTime = Math.min(deltaTime, PHYSICS.JUMP.MAX_HOLD_TIME - this.state.jumpHoldTime);
+                this.state.velocity.y += PHYSICS.JUMP.HOLD_FORCE * holdTime;
+                this.state.jumpHoldTime += holdTime;
+            } else {
+                this.jumpHeld = false;
+            }
         }
 
         // Handle jetpack propulsion (enhanced system)
@@ -49,6 +117,9 @@ export class PhysicsBody {
             // Calculate the jet force based on velocity
             // Apply more force when falling to recover control
             let jetForce = PHYSICS.JET.FORCE;
+
+            // Jetting takes over from a jump pad's throw - how we come down is up to us again
+            this.launched = false;
             
             // Boost recovery power when falling rapidly
             if (this.state.velocity.y < 0) {
@@ -66,12 +137,6 @@ export class PhysicsBody {
                 this.state.velocity.y = PHYSICS.JET.MAX_VELOCITY;
             }
             
-            // Apply horizontal drag when using jet (for better air control)
-            if (Math.abs(this.state.velocity.x) > 0) {
-                const airDrag = 0.95;
-                this.state.velocity.x *= airDrag;
-            }
-            
             // Consume fuel
             this.state.fuel = Math.max(0, this.state.fuel - PHYSICS.JET.FUEL.CONSUMPTION * deltaTime);
             
@@ -112,16 +177,46 @@ export class PhysicsBody {
             this.state.velocity.y = PHYSICS.MAX_FALL_SPEED;
         }
 
-        // Update position
-        this.state.position.y += this.state.velocity.y * deltaTime;
+        // Wall slide - pressing into a wall while falling caps the fall speed
+        const pressingIntoWall = this.state.wallContact !== 0 && Math.sign(moveX) === this.state.wallContact;
+        this.state.wallSliding = pressingIntoWall && this.state.velocity.y <= 0;
+        if (this.state.wallSliding && this.state.velocity.y < -PHYSICS.WALL.SLIDE_SPEED) {
+            this.state.velocity.y = -PHYSICS.WALL.SLIDE_SPEED;
+        }
 
-        // Ground collision check
-        if (this.state.position.y <= PHYSICS.GROUND.Y_POSITION) {
-            this.state.position.y = PHYSICS.GROUND.Y_POSITION;
-            this.state.velocity.y = 0;
-            this.state.grounded = true;
-        } else {
+        // Update position - one axis at a time so each collision has a single resolution direction
+        const wasGrounded = this.state.grounded;
+        const fallSpeed = -this.state.velocity.y;
+        this.moveHorizontal(this.state.velocity.x * deltaTime);
+        this.moveVertical(this.state.velocity.y * deltaTime);
+        this.detectWallContact();
+
+        // Jump pads throw us straight back up (and save us from a hard landing, both onto
+        // the pad and wherever the throw comes down); otherwise report how hard we touched
+        // down, and stagger on a hard landing
+        const launch = this.getGroundSurface()?.launch ?? 0;
+        if (launch > 0) {
+            this.state.velocity.y = launch;
             this.state.grounded = false;
+            this.groundCollider = null;
+            this.coyoteTime = 0;
+            this.jumpHeld = false;
+            this.launched = true;
+            this.events.push({ type: 'launch', speed: launch });
+        } else if (!wasGrounded && this.state.grounded && fallSpeed > 0) {
+            const cushioned = this.launched;
+            const hard = !cushioned && fallSpeed >= PHYSICS.FALL_DAMAGE.HARD_LANDING_SPEED;
+            if (hard) {
+                this.staggerTime = PHYSICS.FALL_DAMAGE.STAGGER_TIME;
+            }
+            this.events.push({ type: 'land', impactSpeed: fallSpeed, hard, cushioned });
+        }
+
+        if (this.state.grounded) {
+            this.launched = false;
+            this.coyoteTime = PHYSICS.JUMP.COYOTE_TIME;
+        } else {
+            this.coyoteTime = Math.max(0, this.coyoteTime - deltaTime);
         }
 
         // Update last jump time for animation purposes
@@ -132,6 +227,216 @@ export class PhysicsBody {
         }
     }
 
+    // Shared bookkeeping for ground and wall jumps
+    private startJump() {
+        this.state.grounded = false;
+        this.state.jumpBufferTime = 0;
+        this.state.jumpHoldTime = 0;
+        this.coyoteTime = 0;
+        this.jumpHeld = true;
+    }
+
+    // Drive velocity.x from the horizontal input (-1 to 1).
+    // On the ground we accelerate towards run speed and friction brings us to a stop;
+    // in the air we only steer, so momentum from jumps and jetting carries through.
+    // The ground's surface scales friction, acceleration and run speed, and a moving
+    // surface (conveyor) carries us - all of this works relative to the surface.
+    private applyHorizontalMovement(deltaTime: number, moveX: number) {
+        const surface = this.getGroundSurface();
+        const surfaceVelocity = surface?.velocity ?? 0;
+        const velocityX = this.state.velocity.x - surfaceVelocity;
+        const targetSpeed = moveX * this.runSpeed * (surface?.speed ?? 1);
+        const frictionDeceleration = PHYSICS.GROUND.FRICTION * Math.abs(PHYSICS.GRAVITY) * (surface?.friction ?? 1);
+        const movingWithInput = moveX !== 0 && Math.sign(velocityX) === Math.sign(moveX);
+        const fasterThanTarget = Math.abs(velocityX) > Math.abs(targetSpeed);
+
+        let newVelocityX = velocityX;
+
+        if (this.state.grounded) {
+            if (moveX === 0 || (movingWithInput && fasterThanTarget)) {
+                // No input (or landing with extra momentum) - friction slows us down
+                newVelocityX = approach(velocityX, targetSpeed, frictionDeceleration * deltaTime);
+            } else {
+                // Turning around gets friction on top of acceleration for a snappier reversal
+                const reversing = velocityX !== 0 && !movingWithInput;
+                const acceleration = PHYSICS.MOVE.GROUND_ACCELERATION * (surface?.acceleration ?? 1) +
+                    (reversing ? frictionDeceleration : 0);
+                newVelocityX = approach(velocityX, targetSpeed, acceleration * deltaTime);
+            }
+        } else {
+            // Air control never brakes momentum that's already going our way
+            if (moveX !== 0 && !(movingWithInput && fasterThanTarget)) {
+                newVelocityX = approach(velocityX, targetSpeed, PHYSICS.MOVE.AIR_ACCELERATION * deltaTime);
+            }
+            newVelocityX *= Math.max(0, 1 - PHYSICS.MOVE.AIR_DRAG * deltaTime);
+        }
+
+        this.state.velocity.x = THREE.MathUtils.clamp(
+            newVelocityX + surfaceVelocity,
+            -PHYSICS.MOVE.MAX_SPEED,
+            PHYSICS.MOVE.MAX_SPEED
+        );
+    }
+
+    // Surface we're standing on (null on plain ground or in the air)
+    private getGroundSurface(): IMovementSurface | null {
+        return this.state.grounded ? this.groundCollider?.surface ?? null : null;
+    }
+
+    // Move along X, stopping flush against any collider we run into.
+    // One-way platforms never block sideways movement.
+    private moveHorizontal(dx: number) {
+        this.state.collisions.left = false;
+        this.state.collisions.right = false;
+        if (dx === 0) return;
+
+        const previousBounds = this.getBounds();
+        this.state.position.x += dx;
+        const halfWidth = PHYSICS.BODY.WIDTH / 2;
+
+        for (const collider of this.colliders) {
+            if (collider.oneWay || !boundsOverlap(this.getBounds(), collider)) continue;
+
+            if (dx > 0 && previousBounds.max.x <= collider.min.x + PHYSICS.COLLISION.SKIN) {
+                // Ran into the left face of the collider
+                this.state.position.x = collider.min.x - halfWidth;
+                this.state.velocity.x = Math.min(0, this.state.velocity.x);
+                this.state.collisions.right = true;
+            } else if (dx < 0 && previousBounds.min.x >= collider.max.x - PHYSICS.COLLISION.SKIN) {
+                // Ran into the right face of the collider
+                this.state.position.x = collider.max.x + halfWidth;
+                this.state.velocity.x = Math.max(0, this.state.velocity.x);
+                this.state.collisions.left = true;
+            }
+        }
+    }
+
+    // Move along Y, landing on platform tops and bumping into ceilings.
+    // One-way platforms can only be landed on - we jump straight up through them.
+    private moveVertical(dy: number) {
+        this.state.collisions.above = false;
+        this.state.collisions.below = false;
+        this.groundCollider = null;
+
+        const previousBounds = this.getBounds();
+        this.state.position.y += dy;
+
+        for (const collider of this.colliders) {
+            if (collider === this.dropThroughCollider) continue;
+            if (!boundsOverlap(this.getBounds(), collider)) continue;
+
+            if (dy < 0 && previousBounds.min.y >= collider.max.y - PHYSICS.COLLISION.SKIN) {
+                // Landed on top of the collider
+                this.state.position.y = collider.max.y;
+                this.state.velocity.y = 0;
+                this.state.collisions.below = true;
+                this.groundCollider = collider;
+            } else if (collider.oneWay) {
+                continue;
+            } else if (dy > 0 && previousBounds.max.y <= collider.min.y + PHYSICS.COLLISION.SKIN) {
+                // Head hit the underside of the collider
+                this.state.position.y = collider.min.y - PHYSICS.BODY.HEIGHT;
+                this.state.velocity.y = 0;
+                this.state.collisions.above = true;
+            }
+        }
+
+        // The infinite floor is always present underneath the level geometry
+        if (this.state.position.y <= PHYSICS.GROUND.Y_POSITION) {
+            this.state.position.y = PHYSICS.GROUND.Y_POSITION;
+            this.state.velocity.y = 0;
+            this.state.collisions.below = true;
+        }
+
+        // Once we've dropped clear of the platform, landed on something else or jetted back
+        // up above it, it's solid again
+        const dropThrough = this.dropThroughCollider;
+        if (dropThrough && (
+            this.state.collisions.below ||
+            this.state.position.y < dropThrough.min.y ||
+            (this.state.position.y >= dropThrough.max.y && !boundsOverlap(this.getBounds(), dropThrough))
+        )) {
+            this.dropThroughCollider = null;
+        }
+
+        this.state.grounded = this.state.collisions.below;
+    }
+
+    // Check for a wall right next to us. Only counts while airborne - on the ground a
+    // wall is just something we walked into. One-way platforms aren't walls.
+    private detectWallContact() {
+        this.state.wallContact = 0;
+        if (this.state.grounded) return;
+
+        const bounds = this.getBounds();
+        const distance = PHYSICS.WALL.CONTACT_DISTANCE;
+        const leftProbe: IBounds = {
+            min: { x: bounds.min.x - distance, y: bounds.min.y },
+            max: { x: bounds.min.x, y: bounds.max.y }
+        };
+        const rightProbe: IBounds = {
+            min: { x: bounds.max.x, y: bounds.min.y },
+            max: { x: bounds.max.x + distance, y: bounds.max.y }
+        };
+
+        for (const collider of this.colliders) {
+            if (collider.oneWay) continue;
+            if (boundsOverlap(leftProbe, collider)) {
+                this.state.wallContact = -1;
+                return;
+            }
+            if (boundsOverlap(rightProbe, collider)) {
+                this.state.wallContact = 1;
+                return;
+            }
+        }
+    }
+
+    // Collision box at the given feet position (defaults to the current position)
+    getBounds(x: number = this.state.position.x, y: number = this.state.position.y): IBounds {
+        const halfWidth = PHYSICS.BODY.WIDTH / 2;
+        return {
+            min: { x: x - halfWidth, y },
+            max: { x: x + halfWidth, y: y + PHYSICS.BODY.HEIGHT }
+        };
+    }
+
+    // Recovering from a hard landing
+    isStaggered(): boolean {
+        return this.staggerTime > 0;
+    }
+
+    // Events raised during the last update (jumps, wall jumps, landings)
+    getEvents(): readonly PhysicsEvent[] {
+        return this.events;
+    }
+
+    setColliders(colliders: ICollider[]) {
+        this.colliders = colliders;
+    }
+
+    setRunSpeed(speed: number) {
+        this.runSpeed = speed;
+    }
+
+    // Instant change in velocity from an outside source (explosions, knockback).
+    // An upward push lifts us off the ground straight away so friction doesn't eat it,
+    // and ends any jump still being held.
+    applyImpulse(impulse: { x: number; y: number }) {
+        this.state.velocity.x = THREE.MathUtils.clamp(
+            this.state.velocity.x + impulse.x,
+            -PHYSICS.MOVE.MAX_SPEED,
+            PHYSICS.MOVE.MAX_SPEED
+        );
+        this.state.velocity.y += impulse.y;
+
+        if (impulse.y > 0) {
+            this.state.grounded = false;
+            this.coyoteTime = 0;
+            this.jumpHeld = false;
+        }
+    }
+
     getState(): IPhysicsState & { jetActive: boolean } {
         return { ...this.state, jetActive: this.jetActive };
     }
@@ -144,6 +449,15 @@ export class PhysicsBody {
         );
     }
 
+    // Position blended between the last two updates (alpha 0 = previous, 1 = current)
+    getInterpolatedPosition(alpha: number): THREE.Vector3 {
+        return new THREE.Vector3(
+            THREE.MathUtils.lerp(this.previousPosition.x, this.state.position.x, alpha),
+            THREE.MathUtils.lerp(this.previousPosition.y, this.state.position.y, alpha),
+            THREE.MathUtils.lerp(this.previousPosition.z, this.state.position.z, alpha)
+        );
+    }
+
     isGrounded(): boolean {
         return this.state.grounded;
     }
@@ -156,9 +470,53 @@ export class PhysicsBody {
         return (this.state.fuel / PHYSICS.JET.FUEL.MAX) * 100;
     }
 
+    // Start over at the given position as if freshly spawned: at rest, airborne, full fuel,
+    // with no jump, stagger or drop-through still in progress
+    reset(position: THREE.Vector3) {
+        this.state = createInitialState(position);
+        this.previousPosition = { ...this.state.position };
+        this.jumpPressed = false;
+        this.jetActive = false;
+        this.wallJumpLockTime = 0;
+        this.coyoteTime = 0;
+        this.jumpHeld = false;
+        this.staggerTime = 0;
+        this.launched = false;
+        this.groundCollider = null;
+        this.dropThroughCollider = null;
+        this.dropPressed = false;
+        this.events = [];
+    }
+
     setPosition(position: THREE.Vector3) {
         this.state.position.x = position.x;
         this.state.position.y = position.y;
         this.state.position.z = position.z;
+        // Teleports shouldn't be interpolated
+        this.previousPosition = { ...this.state.position };
     }
+}
+
+// State of a body at rest at the given position, with a full jetpack
+function createInitialState(position: THREE.Vector3): IPhysicsState {
+    return {
+        position: { x: position.x, y: position.y, z: position.z },
+        velocity: { x: 0, y: 0, z: 0 },
+        grounded: false,
+        jumpHoldTime: 0,
+        lastJumpTime: 0,
+        jumpBufferTime: 0,
+        jetActive: false,
+        fuel: PHYSICS.JET.FUEL.MAX,
+        isRecharging: false,
+        collisions: { above: false, below: false, left: false, right: false },
+        wallContact: 0,
+        wallSliding: false
+    };
+}
+
+// Move value towards target by at most maxDelta without overshooting
+function approach(value: number, target: number, maxDelta: number): number {
+    if (value < target) return Math.min(value + maxDelta, target);
+    return Math.max(value - maxDelta, target);
 } 
\ No newline at end of file
@@ -1,11 +1,12 @@
 export const PHYSICS = {
     GRAVITY: -9.81 * 2.5, // Adjusted gravity for better feel
-    MAX_FALL_SPEED: -20,
+    MAX_FALL_SPEED: -25,  // Terminal velocity, reached after a drop of about 12.7m
     JUMP: {
         FORCE: 10,           // Initial jump force
-        MAX_HOLD_TIME: 0,    // Hold time for variable height
-        HOLD_FORCE: 0,       // Hold force for extra height
-        BUFFER_TIME: 0.1     // Time window for jump input buffer (seconds)
+        MAX_HOLD_TIME: 0.15, // Hold time for variable height
+        HOLD_FORCE: 15,      // Hold force for extra height
+        BUFFER_TIME: 0.1,    // Time window for jump input buffer (seconds)
+        COYOTE_TIME: 0.1     // Grace period for jumping after walking off a ledge (seconds)
     },
     JET: {
         FORCE: 30,           // Further increased upward force for better control
@@ -16,12 +17,75 @@ export const PHYSICS = {
             RECHARGE: 8      // Faster recharge for better gameplay flow
         }
     },
+    MOVE: {
+        RUN_SPEED: 5,            // Target horizontal speed while holding a direction
+        GROUND_ACCELERATION: 40, // How quickly we reach run speed on the ground
+        AIR_ACCELERATION: 15,    // Air control - steering while jumping or jetting
+        AIR_DRAG: 0.2,           // Fraction of horizontal speed lost per second in the air
+        MAX_SPEED: 25            // Hard cap on horizontal speed from any source
+    },
+    WALL: {
+        SLIDE_SPEED: 3,          // Max fall speed while pressing into a wall
+        JUMP_FORCE_X: 8,         // Horizontal push away from the wall on a wall jump
+        JUMP_FORCE_Y: 10,        // Upward velocity of a wall jump
+        JUMP_CONTROL_LOCK: 0.2,  // Seconds of ignored horizontal input after a wall jump
+        CONTACT_DISTANCE: 0.05   // How close a wall has to be to count as touching it
+    },
+    // Presets for ICollider.surface - map authors can also write their own
+    MOVEMENT_SURFACES: {
+        ICE: { friction: 0.08, acceleration: 0.2 },           // Slow to get going, slow to stop
+        STICKY: { friction: 2, speed: 0.5, jump: 0.6 },       // Bogs you down, weak jumps
+        CONVEYOR_LEFT: { velocity: -4 },
+        CONVEYOR_RIGHT: { velocity: 4 },
+        JUMP_PAD: { launch: 18 }                              // About 6.5m up
+    },
+    FALL_DAMAGE: {
+        MIN_SPEED: 21,           // Landing slower than this is harmless - a drop of up to ~9m, clear of a held jump off the high ledge (~20)
+        MAX_SPEED: 25,           // Landing this fast (terminal velocity, see MAX_FALL_SPEED) does MAX_DAMAGE
+        MIN_DAMAGE: 5,
+        MAX_DAMAGE: 35,
+        CURVE_EXPONENT: 2,       // Shape of the ramp between the two - above 1 saves most of the damage for the fastest falls
+        HARD_LANDING_SPEED: 21,  // Landings at least this fast stagger
+        STAGGER_TIME: 0.35       // Seconds without movement or jumping after a hard landing
+    },
     GROUND: {
-        FRICTION: 0.9,       // Ground friction coefficient
+        FRICTION: 0.9,       // Ground friction coefficient (deceleration = friction * |gravity|)
         Y_POSITION: 0        // Ground Y position
     },
+    BODY: {
+        WIDTH: 1.0,          // Character collision box width
+        HEIGHT: 3.6          // Character collision box height (position is at the feet)
+    },
+    COLLISION: {
+        SKIN: 0.001          // Tolerance used when deciding which side of a collider we came from
+    },
+    // How bullets interact with each surface material
+    SURFACES: {
+        concrete: {
+            RICOCHET_ANGLE: 0,       // Never ricochets - absorbs everything
+            PENETRATION_DEPTH: 0,
+            SPEED_RETAINED: 0,
+            DAMAGE_RETAINED: 0
+        },
+        metal: {
+            RICOCHET_ANGLE: 0.4,     // Glances off when hit at under ~23 degrees to the surface
+            PENETRATION_DEPTH: 0,
+            SPEED_RETAINED: 0.7,     // Share of speed and damage a ricochet keeps
+            DAMAGE_RETAINED: 0.6
+        },
+        glass: {
+            RICOCHET_ANGLE: 0,
+            PENETRATION_DEPTH: 0.5,  // Passes through when there's at most this much glass along the path
+            SPEED_RETAINED: 0.85,    // Share of speed and damage left after going through
+            DAMAGE_RETAINED: 0.5
+        }
+    },
+    PROJECTILE: {
+        MAX_RICOCHETS: 3     // After this many bounces the next surface stops the bullet
+    },
     TIME: {
-        FIXED_TIMESTEP: 1/60 // Fixed physics timestep (60 Hz)
+        FIXED_TIMESTEP: 1/60, // Fixed physics timestep (60 Hz)
+        MAX_FRAME_DELTA: 0.25 // Longest frame we simulate; anything longer is dropped to avoid a catch-up spiral
     }
 } as const;
 
@@ -36,4 +100,12 @@ export interface IPhysicsState {
     jetActive: boolean;
     fuel: number;
     isRecharging: boolean;
+    collisions: {
+        above: boolean;      // Bumped into a ceiling this update
+        below: boolean;      // Standing on the ground or a platform
+        left: boolean;       // Blocked by geometry on the left
+        right: boolean;      // Blocked by geometry on the right
+    };
+    wallContact: -1 | 0 | 1; // Side an airborne body is touching a wall on (-1 left, 1 right)
+    wallSliding: boolean;    // Pressing into a wall and sliding down it
 } 
\ No newline at end of file
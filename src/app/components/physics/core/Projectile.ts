@@ -1,5 +1,7 @@
 import * as THREE from 'three';
 import { PHYSICS } from './PhysicsConstants';
+import { ICollider, IBounds, IHitbox, ISweepHit, SurfaceMaterial, DEFAULT_SURFACE_MATERIAL, sweepCollider, sweepSegment } from './Collider';
+import { resolveImpact } from './ImpactResolver';
 
 // Define projectile configuration type
 export interface ProjectileConfig {
@@ -9,12 +11,64 @@ export interface ProjectileConfig {
   lifetime?: number;
   speed?: number;
   size?: number;
+  ownerId?: string;   // Character that fired it - never hit by its own shots
+  ownerTeam?: string; // Team of the character that fired it - homing ignores teammates
+  damage?: number;    // Damage dealt to a character on a hit
+  // Damage scales down linearly from `start` to `end` distance travelled, to `minMultiplier`
+  damageFalloff?: { start: number; end: number; minMultiplier: number };
+  explosive?: IExplosiveConfig; // Blows up instead of just stopping
+  homing?: IHomingConfig;       // Steers towards characters in front of it
 }
 
+// Area damage and knockback for grenades. They bounce off level geometry until their
+// lifetime (the fuse) runs out, and blow up straight away on hitting a character.
+export interface IExplosiveConfig {
+  radius: number;             // Nothing further than this from the blast is affected
+  damage: number;             // Damage at the centre, falling off linearly to 0 at the radius
+  knockback: number;          // Impulse at the centre, falling off the same way
+  bounciness?: number;        // Share of speed kept on each bounce
+}
+
+// Target seeking for smart weapons. A character has to stay the best target inside the
+// cone for the lock delay before the projectile starts turning towards it; once locked
+// it keeps chasing that character, as fast as the turn rate allows.
+export interface IHomingConfig {
+  coneAngle: number;   // Full width of the acquisition cone around the direction of travel (radians)
+  range: number;       // Characters further away than this are ignored
+  turnRate: number;    // Maximum turn towards the target (radians per second)
+  lockDelay: number;   // Seconds a target must be held before homing kicks in
+}
+
+// Recent positions kept for drawing the trail along the path actually flown
+const MAX_TRAIL_POINTS = 4;
+
+// What a projectile struck
+export type ProjectileHitTarget =
+  | { type: 'world'; colliderId?: string; material: SurfaceMaterial } // Level geometry or the ground
+  | { type: 'character'; id: string };
+
+export interface IProjectileHit {
+  point: THREE.Vector3;
+  normal: THREE.Vector3;
+  target: ProjectileHitTarget;
+}
+
+// A projectile touching level geometry - bouncing off it, passing through it or stopping in it
+export interface IProjectileImpact {
+  type: 'ricochet' | 'penetrate' | 'stop';
+  point: THREE.Vector3;
+  normal: THREE.Vector3;
+  material: SurfaceMaterial;
+}
+
+const Z_AXIS = new THREE.Vector3(0, 0, 1);
+
 // Projectile class to handle physics and lifecycle of a single projectile
 export class Projectile {
   // Position and physics
   position: THREE.Vector3;
+  // Position at the start of the last update, for render interpolation
+  previousPosition: THREE.Vector3;
   velocity: THREE.Vector3;
   gravity: number;
   
@@ -25,10 +79,32 @@ export class Projectile {
   
   // Visual properties
   size: number;
+  
+  // Who fired it, how hard it hits, and what it hit (set on the step it stops)
+  ownerId?: string;
+  ownerTeam?: string;
+  damage: number;
+  damageFalloff?: { start: number; end: number; minMultiplier: number };
+  // Distance covered so far, for damage falloff
+  distanceTravelled: number = 0;
+  hit: IProjectileHit | null = null;
+  // Explosive behaviour, and where it went off (set on the step it detonates)
+  explosive?: IExplosiveConfig;
+  detonation: THREE.Vector3 | null = null;
+  // Homing behaviour, the character being tracked and how long it's been held in the cone
+  homing?: IHomingConfig;
+  targetId: string | null = null;
+  lockTime: number = 0;
+  // Where the projectile has been over the last few updates, oldest first
+  private trail: THREE.Vector3[] = [];
+  // Surfaces bounced off so far, and impacts with level geometry during the last update
+  ricochets: number = 0;
+  private impacts: IProjectileImpact[] = [];
 
   constructor(config: ProjectileConfig) {
     // Set position (cloning to avoid reference issues)
     this.position = config.initialPosition.clone();
+    this.previousPosition = this.position.clone();
     
     // Set velocity and normalize + scale by speed
     this.velocity = config.initialVelocity.clone();
@@ -45,25 +121,43 @@ export class Projectile {
     // Set visual properties - make bullets larger by default
     this.size = config.size || 0.2; // Increased from 0.05 to 0.2
     
+    this.ownerId = config.ownerId;
+    this.ownerTeam = config.ownerTeam;
+    this.damage = config.damage ?? 0;
+    this.damageFalloff = config.damageFalloff;
+    this.explosive = config.explosive;
+    this.homing = config.homing;
+    
     // Debug output on creation
     console.log(`Projectile created at position: [${this.position.x.toFixed(2)}, ${this.position.y.toFixed(2)}, ${this.position.z.toFixed(2)}]`);
     console.log(`Initial velocity: [${this.velocity.x.toFixed(2)}, ${this.velocity.y.toFixed(2)}, ${this.velocity.z.toFixed(2)}]`);
   }
 
-  // Update projectile physics
-  update(deltaTime: number): boolean {
+  // Update projectile physics - deltaTime should be the fixed simulation step.
+  // Movement is swept against the colliders and hitboxes, so fast projectiles
+  // can't tunnel through thin walls or characters between steps.
+  update(deltaTime: number, colliders: readonly ICollider[] = [], hitboxes: readonly IHitbox[] = []): boolean {
     if (!this.active) return false;
     
+    this.previousPosition.copy(this.position);
+    this.impacts = [];
+    
     // Decrease lifetime
     this.lifetime -= deltaTime;
     if (this.lifetime <= 0) {
       this.active = false;
       console.log("Projectile lifetime ended");
+      // Fuse ran out - explosives go off wherever they are
+      if (this.explosive) {
+        this.detonation = this.position.clone();
+      }
       return false;
     }
     
-    // Store previous velocity for trajectory calculation
-    const previousVelocity = this.velocity.clone();
+    // Steer towards a locked-on target before moving
+    if (this.homing) {
+      this.updateHoming(deltaTime, hitboxes);
+    }
     
     // Apply gravity to velocity - increased effect
     this.velocity.y += this.gravity * deltaTime;
@@ -73,14 +167,107 @@ export class Projectile {
     this.position.y += this.velocity.y * deltaTime;
     this.position.z += this.velocity.z * deltaTime;
     
-    // Simple ground collision check
-    if (this.position.y <= PHYSICS.GROUND.Y_POSITION + this.size/2) {
-      this.position.y = PHYSICS.GROUND.Y_POSITION + this.size/2;
+    // Find the earliest thing the segment we just travelled touches
+    const radius = this.size / 2;
+    const candidates: { sweep: ISweepHit | null; target: ProjectileHitTarget; bounds?: IBounds }[] = [];
+    
+    for (const collider of colliders) {
+      candidates.push({
+        sweep: sweepCollider(this.previousPosition, this.position, collider, radius),
+        target: { type: 'world', colliderId: collider.id, material: collider.material ?? DEFAULT_SURFACE_MATERIAL },
+        bounds: collider
+      });
+    }
+    for (const hitbox of hitboxes) {
+      if (hitbox.id === this.ownerId) continue;
+      candidates.push({
+        sweep: sweepSegment(this.previousPosition, this.position, hitbox, radius),
+        target: { type: 'character', id: hitbox.id }
+      });
+    }
+    
+    // The infinite ground plane
+    const groundY = PHYSICS.GROUND.Y_POSITION + radius;
+    if (this.position.y <= groundY) {
+      const travelledY = this.position.y - this.previousPosition.y;
+      const time = travelledY < 0 ? Math.max(0, (groundY - this.previousPosition.y) / travelledY) : 0;
+      candidates.push({
+        sweep: {
+          time,
+          point: { x: THREE.MathUtils.lerp(this.previousPosition.x, this.position.x, time), y: groundY },
+          normal: { x: 0, y: 1 }
+        },
+        target: { type: 'world', material: DEFAULT_SURFACE_MATERIAL }
+      });
+    }
+    
+    let first: { sweep: ISweepHit; target: ProjectileHitTarget; bounds?: IBounds } | null = null;
+    for (const { sweep, target, bounds } of candidates) {
+      if (sweep && (!first || sweep.time < first.sweep.time)) {
+        first = { sweep, target, bounds };
+      }
+    }
+    
+    if (first) {
+      const { sweep, target, bounds } = first;
+      const direction = this.position.clone().sub(this.previousPosition).normalize();
+      const z = THREE.MathUtils.lerp(this.previousPosition.z, this.position.z, sweep.time);
+      this.position.set(sweep.point.x, sweep.point.y, z);
+      this.distanceTravelled += this.position.distanceTo(this.previousPosition);
+      const normal = new THREE.Vector3(sweep.normal.x, sweep.normal.y, 0);
+      
+      // Grenades bounce off level geometry and wait for the fuse - a character sets them off
+      if (this.explosive && target.type === 'world') {
+        this.velocity.reflect(normal).multiplyScalar(this.explosive.bounciness ?? 0.5);
+        // Step off the surface so the next sweep doesn't start touching it
+        this.position.addScaledVector(normal, PHYSICS.COLLISION.SKIN);
+        return true;
+      }
+      
+      // Bullets ricochet off, pass through or stop in level geometry depending on what it's made of
+      if (target.type === 'world' && !this.explosive) {
+        const impact = this.ricochets < PHYSICS.PROJECTILE.MAX_RICOCHETS
+          ? resolveImpact(direction, this.position, normal, target.material, bounds, radius)
+          : { type: 'stop' as const };
+        this.impacts.push({ type: impact.type, point: this.position.clone(), normal, material: target.material });
+        
+        if (impact.type === 'ricochet') {
+          this.ricochets++;
+          const speed = this.velocity.length();
+          this.velocity.copy(impact.direction).multiplyScalar(speed * impact.speedRetained);
+          this.damage *= impact.damageRetained;
+          this.position.addScaledVector(normal, PHYSICS.COLLISION.SKIN);
+          return true;
+        }
+        if (impact.type === 'penetrate') {
+          this.velocity.multiplyScalar(impact.speedRetained);
+          this.damage *= impact.damageRetained;
+          // Come out the far side, just clear of the surface
+          this.distanceTravelled += impact.exitPoint.distanceTo(this.position);
+          this.position.copy(impact.exitPoint).addScaledVector(direction, PHYSICS.COLLISION.SKIN);
+          return true;
+        }
+      }
+      
+      this.hit = {
+        point: this.position.clone(),
+        normal,
+        target
+      };
+      if (this.explosive) {
+        this.detonation = this.position.clone();
+      }
       this.active = false;
-      console.log("Projectile hit ground");
       return false;
     }
     
+    this.distanceTravelled += this.position.distanceTo(this.previousPosition);
+    
+    this.trail.push(this.position.clone());
+    if (this.trail.length > MAX_TRAIL_POINTS) {
+      this.trail.shift();
+    }
+    
     // Occasional position logging (about once per second)
     if (Math.random() < deltaTime * 0.5) {
       console.log(`Projectile at: [${this.position.x.toFixed(2)}, ${this.position.y.toFixed(2)}, ${this.position.z.toFixed(2)}]`);
@@ -90,19 +277,83 @@ export class Projectile {
     return true;
   }
   
+  // Pick the best target in the cone (the one needing the smallest turn), hold it for the
+  // lock delay, then turn towards it at no more than the turn rate. Speed is unchanged.
+  private updateHoming(deltaTime: number, hitboxes: readonly IHitbox[]) {
+    if (!this.homing) return;
+    const { coneAngle, range, turnRate, lockDelay } = this.homing;
+    
+    const center = (hitbox: IHitbox) => new THREE.Vector3(
+      (hitbox.min.x + hitbox.max.x) / 2,
+      (hitbox.min.y + hitbox.max.y) / 2,
+      this.position.z
+    );
+    
+    const locked = this.targetId !== null && this.lockTime >= lockDelay;
+    let target = locked ? hitboxes.find(hitbox => hitbox.id === this.targetId) : undefined;
+    
+    if (!target) {
+      // Look for a target - anyone but the shooter and their teammates, in range and inside the cone
+      let bestAngle = coneAngle / 2;
+      let best: IHitbox | undefined;
+      for (const hitbox of hitboxes) {
+        if (hitbox.id === this.ownerId) continue;
+        if (this.ownerTeam !== undefined && hitbox.team === this.ownerTeam) continue;
+        const toTarget = center(hitbox).sub(this.position);
+        if (toTarget.length() > range) continue;
+        const angle = this.velocity.angleTo(toTarget);
+        if (angle <= bestAngle) {
+          bestAngle = angle;
+          best = hitbox;
+        }
+      }
+      
+      if (!best) {
+        this.targetId = null;
+        this.lockTime = 0;
+        return;
+      }
+      if (best.id !== this.targetId) {
+        this.targetId = best.id;
+        this.lockTime = 0;
+      }
+      this.lockTime += deltaTime;
+      if (this.lockTime < lockDelay) return;
+      target = best;
+    }
+    
+    // Rotate the velocity in the XY plane towards the target, clamped to the turn rate
+    const toTarget = center(target).sub(this.position);
+    const turn = Math.atan2(toTarget.y, toTarget.x) - Math.atan2(this.velocity.y, this.velocity.x);
+    const wrappedTurn = Math.atan2(Math.sin(turn), Math.cos(turn));
+    const maxTurn = turnRate * deltaTime;
+    this.velocity.applyAxisAngle(Z_AXIS, THREE.MathUtils.clamp(wrappedTurn, -maxTurn, maxTurn));
+  }
+  
+  // Impacts with level geometry during the last update (ricochets, penetrations, stops)
+  getImpacts(): readonly IProjectileImpact[] {
+    return this.impacts;
+  }
+  
   // Get matrix for instanced rendering
-  getMatrix(): THREE.Matrix4 {
+  // alpha blends between the previous and current step (see FixedTimestep.getAlpha)
+  getMatrix(alpha: number = 1): THREE.Matrix4 {
     const matrix = new THREE.Matrix4();
+    const renderPosition = this.previousPosition.clone().lerp(this.position, alpha);
+    
+    // Point the trail back along the path actually flown rather than the current velocity,
+    // so it bends with gravity arcs and homing turns. Falls back to the velocity until
+    // there's some path to follow.
+    const tail = this.trail[0];
+    const direction = tail && tail.distanceToSquared(renderPosition) > 1e-6
+      ? renderPosition.clone().sub(tail).normalize()
+      : this.velocity.clone().normalize();
     
     // Create a rotation that points the projectile in the direction of travel
     const quat = new THREE.Quaternion();
-    if (this.velocity.lengthSq() > 0) {
-      // Create a rotation based on current velocity direction (including gravity effect)
+    if (direction.lengthSq() > 0) {
       // This makes the projectile point downward as it falls
       const forward = new THREE.Vector3(0, 1, 0);
-      forward.normalize();
-      
-      const direction = this.velocity.clone().normalize();
       quat.setFromUnitVectors(forward, direction);
     }
     
@@ -112,14 +363,14 @@ export class Projectile {
     const trailLength = Math.min(6.0, speed * 0.15); // Reduced max length and scale factor
     
     // Offset the position slightly backward so the trail appears behind the projectile
-    // First get the normalized negative velocity direction
-    const trailDirection = this.velocity.clone().normalize().negate();
+    // First get the normalized negative direction of travel
+    const trailDirection = direction.clone().negate();
     
     // Create an offset that's a fraction of the trail length
     const trailOffset = trailDirection.clone().multiplyScalar(trailLength * 0.3 * this.size);
     
     // Apply this offset to create a position for the trail
-    const trailPosition = this.position.clone().add(trailOffset);
+    const trailPosition = renderPosition.add(trailOffset);
     
     // Set transform matrix with position, rotation and scale
     // Scale Y (length) based on velocity to create stretching effect
@@ -132,6 +383,15 @@ export class Projectile {
     return matrix;
   }
   
+  // Damage this projectile deals at the distance it has travelled
+  getDamage(): number {
+    if (!this.damageFalloff) return this.damage;
+    
+    const { start, end, minMultiplier } = this.damageFalloff;
+    const t = end > start ? THREE.MathUtils.clamp((this.distanceTravelled - start) / (end - start), 0, 1) : 1;
+    return this.damage * THREE.MathUtils.lerp(1, minMultiplier, t);
+  }
+  
   // Check if this projectile is active
   isActive(): boolean {
     return this.active;
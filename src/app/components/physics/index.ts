@@ -7,4 +7,7 @@
 
 export * from './core/PhysicsConstants';
 export * from './core/PhysicsBody';
-export * from './core/Projectile'; 
\ No newline at end of file
+export * from './core/Projectile'; 
+export * from './core/Collider';
+export * from './core/ImpactResolver';
+export * from './core/FixedTimestep';
@@ -0,0 +1,344 @@
+import * as THREE from 'three';
+import { PHYSICS } from '../../physics';
+import { GameSimulation } from '../core/GameSimulation';
+import { Player } from '../core/Player';
+import { IPlayerInput } from '../core/PlayerInput';
+import { GAME } from '../core/GameConstants';
+import { INavLink, NavGraph } from './NavGraph';
+
+// What a bot is trying to do
+export type BotState =
+    | 'roam'      // Nobody to fight - wander between random spots
+    | 'engage'    // Close in on the target and shoot it
+    | 'cover';    // Hurt or reloading - get out of the target's sight for a while
+
+type MovementInput = Pick<IPlayerInput, 'moveX' | 'jump' | 'jet' | 'drop'>;
+
+const IDLE: MovementInput = { moveX: 0, jump: false, jet: false, drop: false };
+
+// Progress along the link being followed
+interface ILinkProgress {
+    link: INavLink;
+    time: number;           // Seconds since the link was started
+    started: boolean;       // Lined up at the takeoff point and set off
+    step: number;           // Input step being replayed, and how many frames of it are done
+    frame: number;
+    leftGround: boolean;
+}
+
+/**
+ * Drives one player the way a person at the keyboard would, by setting their input each
+ * step - it never moves the body itself, so it's held to the same jump force, air control
+ * and jet fuel as everyone else. Every THINK_INTERVAL it picks a target and decides where
+ * to go; in between it follows its path through the level's nav graph link by link and
+ * aims and shoots at whoever it's fighting. Jumps, jets, falls and drops are done by
+ * lining up at the takeoff point and replaying the input the link was planned with.
+ */
+export class BotController {
+    readonly player: Player;
+    state: BotState = 'roam';
+
+    private simulation: GameSimulation;
+    private target: Player | null = null;
+    private targetVisible: boolean = false;
+    private thinkTime: number = 0;
+    private coverTime: number = 0;
+    private goal: number | null = null;
+    private path: INavLink[] = [];
+    private progress: ILinkProgress | null = null;
+    // Where the aim is off by this think, so bots miss now and then
+    private aimError = { x: 0, y: 0 };
+
+    constructor(simulation: GameSimulation, player: Player) {
+        this.simulation = simulation;
+        this.player = player;
+    }
+
+    getTarget(): Player | null {
+        return this.target;
+    }
+
+    // Decide this step's input. Call before the simulation steps the player.
+    update(deltaTime: number) {
+        if (!this.player.isAlive()) {
+            this.player.setInput({ ...IDLE, fire: false, reload: false });
+            this.target = null;
+            this.clearPath();
+            return;
+        }
+
+        this.thinkTime -= deltaTime;
+        this.coverTime = Math.max(0, this.coverTime - deltaTime);
+        if (this.thinkTime <= 0) {
+            this.thinkTime = GAME.BOT.THINK_INTERVAL;
+            this.think();
+        }
+
+        this.player.setInput({ ...this.followPath(deltaTime), ...this.updateCombat() });
+    }
+
+    // Pick a target and a place to go
+    private think() {
+        const graph = this.simulation.world.getNavGraph();
+        this.target = this.findTarget();
+        this.targetVisible = this.target !== null && this.canSee(this.target);
+
+        if (this.target) {
+            const distance = this.player.body.getPosition().distanceTo(this.target.body.getPosition());
+            this.aimError = {
+                x: this.simulation.random.range(-1, 1) * GAME.BOT.AIM_ERROR * distance,
+                y: this.simulation.random.range(-1, 1) * GAME.BOT.AIM_ERROR * distance
+            };
+        }
+
+        // Stay in cover until the time's up and the reload is done; head for it when hurt or
+        // reloading in sight of the target
+        const health = this.player.health;
+        const hurt = health.health / health.maxHealth < GAME.BOT.RETREAT_HEALTH;
+        const reloading = this.player.weapon.isReloading();
+        const stillHiding = this.state === 'cover' && (this.coverTime > 0 || reloading);
+        if (!stillHiding && this.target && this.targetVisible && (hurt || reloading)) {
+            this.state = 'cover';
+            this.coverTime = GAME.BOT.COVER_TIME;
+        } else if (!stillHiding) {
+            this.state = this.target ? 'engage' : 'roam';
+        }
+
+        const here = this.getCurrentNode(graph);
+        if (here === null) return;
+
+        let goal: number | null = this.goal;
+        if (this.state === 'cover' && this.target) {
+            goal = this.findCover(graph, here, this.target) ?? here;
+        } else if (this.state === 'engage' && this.target) {
+            const distance = this.player.body.getPosition().distanceTo(this.target.body.getPosition());
+            if (this.targetVisible && distance <= GAME.BOT.PREFERRED_RANGE) {
+                goal = here;
+            } else {
+                const position = this.target.body.getState().position;
+                goal = graph.findNearestNode(position.x, position.y)?.id ?? null;
+            }
+        } else if (goal === null || goal === here) {
+            goal = Math.floor(this.simulation.random.next() * graph.nodes.length);
+        }
+
+        if (goal !== this.goal) {
+            this.goal = goal;
+            this.replan(graph, here);
+        }
+    }
+
+    // Nearest living enemy, preferring ones we can see. Spawn-protected players aren't
+    // worth the ammo.
+    private findTarget(): Player | null {
+        const position = this.player.body.getPosition();
+        let best: Player | null = null;
+        let bestScore = Infinity;
+        for (const other of this.simulation.getPlayers()) {
+            if (other === this.player || !other.isAlive() || other.isSpawnProtected()) continue;
+            if (this.player.isTeammateOf(other)) continue;
+
+            const distance = position.distanceTo(other.body.getPosition());
+            const score = this.canSee(other) ? distance : distance + GAME.BOT.ENGAGE_RANGE;
+            if (score < bestScore) {
+                best = other;
+                bestScore = score;
+            }
+        }
+        return best;
+    }
+
+    // Line of sight from our eyes to the middle of their body
+    private canSee(other: Player): boolean {
+        const hit = this.simulation.raycast(getEyePosition(this.player), getChestPosition(other), this.player.id);
+        return hit?.target.type === 'character' && hit.target.id === other.id;
+    }
+
+    // Cheapest node to get to that the target can't see, within COVER_SEARCH_COST
+    private findCover(graph: NavGraph, here: number, threat: Player): number | null {
+        const { costs } = graph.getTravelCosts(here);
+        const eye = getEyePosition(threat);
+        let best: number | null = null;
+        for (const node of graph.nodes) {
+            if (costs[node.id] > GAME.BOT.COVER_SEARCH_COST) continue;
+            if (best !== null && costs[node.id] >= costs[best]) continue;
+
+            const head = new THREE.Vector3(node.x, node.y + PHYSICS.BODY.HEIGHT * 0.8, 0);
+            const hit = this.simulation.raycast(eye, head, threat.id);
+            if (hit?.target.type === 'world') {
+                best = node.id;
+            }
+        }
+        return best;
+    }
+
+    // Node we're standing at, or null while in the air
+    private getCurrentNode(graph: NavGraph): number | null {
+        if (!this.player.body.isGrounded()) return null;
+        const position = this.player.body.getState().position;
+        return graph.findNearestNode(position.x, position.y)?.id ?? null;
+    }
+
+    private replan(graph: NavGraph, here: number) {
+        this.clearPath();
+        if (this.goal === null) return;
+        const path = graph.findPath(here, this.goal);
+        if (path) {
+            this.path = path;
+        } else {
+            // No way there - pick somewhere else next time
+            this.goal = null;
+        }
+    }
+
+    private clearPath() {
+        this.path = [];
+        this.progress = null;
+    }
+
+    // Movement input for following the current link of the path
+    private followPath(deltaTime: number): MovementInput {
+        const link = this.path[0];
+        if (!link) return this.holdStill();
+
+        const graph = this.simulation.world.getNavGraph();
+        if (!this.progress || this.progress.link !== link) {
+            this.progress = { link, time: 0, started: false, step: 0, frame: 0, leftGround: false };
+        }
+        const progress = this.progress;
+        progress.time += deltaTime;
+
+        const state = this.player.body.getState();
+        const from = graph.nodes[link.from];
+        const to = graph.nodes[link.to];
+
+        // Taking far longer than it should - knocked off course, or the link was too hopeful
+        if (progress.time > link.cost * 2 + GAME.BOT.LINK_TIMEOUT) {
+            const here = this.getCurrentNode(graph);
+            if (here !== null) this.replan(graph, here);
+            return IDLE;
+        }
+
+        if (link.type === 'walk') {
+            // Run straight through the node when we walk on the same way after it
+            const direction = Math.sign(to.x - from.x);
+            const next = this.path[1];
+            const nextDirection = next?.type === 'walk' ? Math.sign(graph.nodes[next.to].x - graph.nodes[next.from].x) : 0;
+            const passThrough = nextDirection === direction && direction !== 0;
+            const remaining = (to.x - state.position.x) * direction;
+            if (Math.abs(state.position.x - to.x) <= GAME.BOT.ARRIVE_DISTANCE || (passThrough && remaining <= 0)) {
+                this.path.shift();
+                return this.followPath(0);
+            }
+            return { ...IDLE, moveX: passThrough ? direction : this.steerTowards(to.x) };
+        }
+
+        if (!progress.started) {
+            // Stand still at the takeoff point as the move was planned from, with jump let
+            // go so the next press counts and the fuel it needs in the tank
+            if (!state.grounded || Math.abs(state.position.x - from.x) > GAME.NAV.START_TOLERANCE) {
+                return { ...IDLE, moveX: this.steerTowards(from.x) };
+            }
+            if (state.velocity.x !== 0 || this.player.input.jump || this.player.body.isStaggered()) return IDLE;
+            if (state.fuel < link.fuel) return IDLE;
+            progress.started = true;
+        }
+
+        // Landed - on the right surface, or somewhere we need to plan again from
+        if (progress.leftGround && state.grounded) {
+            if (graph.findSurface(state.position.x, state.position.y)?.id === to.surface) {
+                this.path.shift();
+                this.progress = null;
+            } else {
+                const here = this.getCurrentNode(graph);
+                if (here !== null) this.replan(graph, here);
+            }
+            return IDLE;
+        }
+        progress.leftGround = progress.leftGround || !state.grounded;
+
+        // Replay the planned input a frame at a time; once it runs out we should be down,
+        // so just hang over the target until we are
+        const step = link.inputs[progress.step];
+        if (!step) return { ...IDLE, moveX: this.steerTowards(to.x) };
+        progress.frame++;
+        if (progress.frame >= step.frames) {
+            progress.step++;
+            progress.frame = 0;
+        }
+        return { moveX: step.moveX, jump: step.jump, jet: step.jet, drop: step.drop };
+    }
+
+    // Brake to a stop (in the air, momentum would otherwise carry us on)
+    private holdStill(): MovementInput {
+        const position = this.player.body.getState().position;
+        return { ...IDLE, moveX: this.player.body.isGrounded() ? 0 : this.steerTowards(position.x) };
+    }
+
+    // Horizontal input that gets us to x, braking early enough not to overshoot
+    private steerTowards(x: number): number {
+        const state = this.player.body.getState();
+        const offset = x - state.position.x;
+        if (Math.abs(offset) <= GAME.BOT.ARRIVE_DISTANCE / 2 && state.grounded) return 0;
+
+        const velocity = state.velocity.x;
+        const acceleration = state.grounded ? PHYSICS.MOVE.GROUND_ACCELERATION : PHYSICS.MOVE.AIR_ACCELERATION;
+        const stoppingDistance = velocity * velocity / (2 * acceleration);
+        if (Math.sign(velocity) === Math.sign(offset) && stoppingDistance >= Math.abs(offset)) {
+            return -Math.sign(velocity);
+        }
+        return Math.sign(offset);
+    }
+
+    // Aim, fire and reload
+    private updateCombat(): Pick<IPlayerInput, 'aim' | 'fire' | 'reload'> {
+        const weapon = this.player.weapon;
+        const position = this.player.body.getState().position;
+
+        if (!this.target) {
+            // Look where we're going, and top up the magazine while nothing's happening
+            const next = this.path[0] ? this.simulation.world.getNavGraph().nodes[this.path[0].to] : null;
+            const lookX = next && next.x !== position.x ? next.x : position.x + this.player.facing;
+            const reload = !weapon.isReloading() && weapon.ammo < weapon.config.magazineSize / 2;
+            return {
+                aim: { x: lookX, y: position.y + PHYSICS.BODY.HEIGHT * 0.8 },
+                fire: false,
+                reload: reload && !this.player.input.reload
+            };
+        }
+
+        const aim = this.getAimPoint(this.target);
+        const distance = Math.hypot(aim.x - position.x, aim.y - position.y);
+        const wantsToFire = this.targetVisible && distance <= GAME.BOT.ENGAGE_RANGE && !weapon.isEmpty();
+        return {
+            aim: { x: aim.x + this.aimError.x, y: aim.y + this.aimError.y },
+            // Semi-automatics need the trigger let go between shots
+            fire: wantsToFire && (weapon.config.isAutomatic || !this.player.input.fire),
+            reload: false
+        };
+    }
+
+    // Where to aim to hit the target's chest, allowing for bullet drop
+    private getAimPoint(target: Player): { x: number; y: number } {
+        const chest = getChestPosition(target);
+        const projectile = this.player.weapon.config.projectile;
+        if (!projectile || projectile.gravityScale === 0) return { x: chest.x, y: chest.y };
+
+        const muzzle = this.player.getMuzzlePosition();
+        const flightTime = muzzle.distanceTo(chest) / projectile.speed;
+        const drop = 0.5 * Math.abs(PHYSICS.GRAVITY) * projectile.gravityScale * flightTime * flightTime;
+        return { x: chest.x, y: chest.y + drop };
+    }
+}
+
+function getEyePosition(player: Player): THREE.Vector3 {
+    const position = player.body.getPosition();
+    position.y += PHYSICS.BODY.HEIGHT * 0.9;
+    return position;
+}
+
+function getChestPosition(player: Player): THREE.Vector3 {
+    const position = player.body.getPosition();
+    position.y += PHYSICS.BODY.HEIGHT * 0.6;
+    return position;
+}
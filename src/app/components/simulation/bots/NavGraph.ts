@@ -0,0 +1,305 @@
+import { ICollider, IBounds, PHYSICS, boundsOverlap } from '../../physics';
+import { GAME } from '../core/GameConstants';
+import { IInputStep, ReachabilityPlanner } from './ReachabilityPlanner';
+
+// How a bot gets from one node to the next
+export type NavLinkType =
+    | 'walk'    // Along the same surface
+    | 'jump'    // Standing or running jump
+    | 'jet'     // Jump and jetpack up, fly across, then drop onto the target
+    | 'fall'    // Walk off the end of the surface
+    | 'drop';   // Drop through the one-way platform underfoot
+
+// Stretch of level a character can stand on: feet at `y`, body centre anywhere from minX
+// to maxX without hitting anything
+export interface INavSurface {
+    id: number;
+    y: number;
+    minX: number;
+    maxX: number;
+    oneWay: boolean;        // Can be dropped down through
+}
+
+export interface INavNode {
+    id: number;
+    surface: number;
+    x: number;
+    y: number;
+}
+
+export interface INavLink {
+    from: number;
+    to: number;
+    type: NavLinkType;
+    cost: number;           // Estimated seconds to get across
+    fuel: number;           // Jet fuel it takes (0 unless jetting)
+    // Input to replay from a standstill at the `from` node (empty for walking)
+    inputs: IInputStep[];
+}
+
+// A graph as baked into a level file, tagged with the hash of everything it was planned
+// against (see NavGraph.getHash)
+export interface INavGraphData {
+    hash: string;
+    surfaces: INavSurface[];
+    nodes: INavNode[];
+    links: INavLink[];
+}
+
+// Surfaces closer than this in height count as level with each other
+const HEIGHT_EPSILON = 0.01;
+// Bump when the way graphs are planned changes, so baked graphs get planned again
+const NAV_FORMAT_VERSION = 1;
+
+/**
+ * Where bots can stand and how they get between those places. Nodes are spread along
+ * every surface a character fits on; links join neighbours on a surface by walking, and
+ * nodes on different surfaces by whichever of jumping, jetting, falling or dropping gets
+ * there quickest - flown by a real PhysicsBody to be sure it works (see
+ * ReachabilityPlanner). Planning takes a while, so levels ship with their graph baked by
+ * `npm run nav:generate`.
+ */
+export class NavGraph {
+    readonly hash: string;
+    readonly surfaces: INavSurface[];
+    readonly nodes: INavNode[];
+    readonly links: INavLink[];
+    private linksFrom: INavLink[][];
+
+    constructor(hash: string, surfaces: INavSurface[], nodes: INavNode[], links: INavLink[]) {
+        this.hash = hash;
+        this.surfaces = surfaces;
+        this.nodes = nodes;
+        this.links = links;
+        this.linksFrom = nodes.map(() => []);
+        links.forEach(link => this.linksFrom[link.from].push(link));
+    }
+
+    // Work out the graph for a level
+    static build(colliders: readonly ICollider[]): NavGraph {
+        const surfaces = buildSurfaces(colliders);
+        const nodes = surfaces.flatMap(surface => placeNodes(surface));
+        nodes.forEach((node, index) => { node.id = index; });
+
+        const planner = new ReachabilityPlanner(colliders);
+        const links: INavLink[] = [];
+        nodes.forEach((from, index) => {
+            // Walking to the next node along the same surface, both ways
+            const next = nodes[index + 1];
+            if (next && next.surface === from.surface) {
+                const cost = Math.abs(next.x - from.x) / PHYSICS.MOVE.RUN_SPEED;
+                links.push({ from: from.id, to: next.id, type: 'walk', cost, fuel: 0, inputs: [] });
+                links.push({ from: next.id, to: from.id, type: 'walk', cost, fuel: 0, inputs: [] });
+            }
+
+            nodes.forEach(to => {
+                if (to.surface === from.surface) return;
+                if (Math.abs(to.x - from.x) > GAME.NAV.MAX_LINK_DISTANCE) return;
+
+                const { minX, maxX } = surfaces[to.surface];
+                const plan = planner.plan(from, { x: to.x, y: to.y, minX, maxX });
+                if (plan) {
+                    links.push({
+                        from: from.id,
+                        to: to.id,
+                        type: plan.type,
+                        cost: ReachabilityPlanner.getCost(plan),
+                        fuel: plan.fuel,
+                        inputs: plan.inputs
+                    });
+                }
+            });
+        });
+
+        return new NavGraph(NavGraph.getHash(colliders), surfaces, nodes, links);
+    }
+
+    static fromData(data: INavGraphData): NavGraph {
+        return new NavGraph(data.hash, data.surfaces, data.nodes, data.links);
+    }
+
+    // Fingerprint of everything a graph depends on - the level, the physics constants and
+    // the nav settings. A baked graph with a different hash was planned for a body that
+    // moved differently and can't be trusted.
+    static getHash(colliders: readonly ICollider[]): string {
+        return hashString(JSON.stringify({ version: NAV_FORMAT_VERSION, physics: PHYSICS, nav: GAME.NAV, colliders }));
+    }
+
+    toData(): INavGraphData {
+        return { hash: this.hash, surfaces: this.surfaces, nodes: this.nodes, links: this.links };
+    }
+
+    getLinksFrom(nodeId: number): readonly INavLink[] {
+        return this.linksFrom[nodeId] ?? [];
+    }
+
+    // Surface a character with their feet at this point is standing on, if any
+    findSurface(x: number, y: number): INavSurface | null {
+        const halfWidth = PHYSICS.BODY.WIDTH / 2;
+        let best: INavSurface | null = null;
+        let bestDistance = Infinity;
+        for (const surface of this.surfaces) {
+            if (Math.abs(surface.y - y) > 0.05) continue;
+            if (x < surface.minX - halfWidth || x > surface.maxX + halfWidth) continue;
+            const distance = Math.max(0, surface.minX - x, x - surface.maxX);
+            if (distance < bestDistance) {
+                best = surface;
+                bestDistance = distance;
+            }
+        }
+        return best;
+    }
+
+    // Closest node to a point - on the surface underfoot when there is one
+    findNearestNode(x: number, y: number): INavNode | null {
+        const surface = this.findSurface(x, y);
+        let best: INavNode | null = null;
+        let bestDistance = Infinity;
+        for (const node of this.nodes) {
+            if (surface && node.surface !== surface.id) continue;
+            const distance = Math.hypot(node.x - x, node.y - y);
+            if (distance < bestDistance) {
+                best = node;
+                bestDistance = distance;
+            }
+        }
+        return best;
+    }
+
+    // Seconds to reach every node from the start node (Infinity where there's no way there),
+    // along with the link each node is best reached by
+    getTravelCosts(start: number): { costs: number[]; via: (INavLink | null)[] } {
+        const costs = this.nodes.map(() => Infinity);
+        const via: (INavLink | null)[] = this.nodes.map(() => null);
+        const done = this.nodes.map(() => false);
+        if (start < 0 || start >= this.nodes.length) return { costs, via };
+        costs[start] = 0;
+
+        // Plain Dijkstra - levels have tens of nodes, not thousands
+        for (;;) {
+            let current = -1;
+            for (let index = 0; index < costs.length; index++) {
+                if (!done[index] && costs[index] < Infinity && (current < 0 || costs[index] < costs[current])) {
+                    current = index;
+                }
+            }
+            if (current < 0) break;
+            done[current] = true;
+
+            for (const link of this.getLinksFrom(current)) {
+                const cost = costs[current] + link.cost;
+                if (cost < costs[link.to]) {
+                    costs[link.to] = cost;
+                    via[link.to] = link;
+                }
+            }
+        }
+
+        return { costs, via };
+    }
+
+    // Cheapest sequence of links from one node to another - empty when already there,
+    // null when there's no way there
+    findPath(start: number, goal: number): INavLink[] | null {
+        if (start === goal) return [];
+        const { via } = this.getTravelCosts(start);
+        if (!via[goal]) return null;
+
+        const path: INavLink[] = [];
+        for (let link: INavLink | null = via[goal]; link; link = via[link.from]) {
+            path.unshift(link);
+        }
+        return path;
+    }
+}
+
+// Find every stretch of level top a character fits on. The floor runs a little past the
+// level either side; tops at the floor's height (e.g. set-in ice) are part of the floor.
+// Jump pads are left out, so bots jump over them rather than walking into a launch.
+function buildSurfaces(colliders: readonly ICollider[]): INavSurface[] {
+    const groundY = PHYSICS.GROUND.Y_POSITION;
+    const levelMinX = Math.min(0, ...colliders.map(collider => collider.min.x));
+    const levelMaxX = Math.max(0, ...colliders.map(collider => collider.max.x));
+
+    // Tops of everything, merged where they touch at the same height
+    const tops: { y: number; minX: number; maxX: number; oneWay: boolean }[] = [
+        { y: groundY, minX: levelMinX - GAME.NAV.FLOOR_MARGIN, maxX: levelMaxX + GAME.NAV.FLOOR_MARGIN, oneWay: false }
+    ];
+    colliders.forEach(collider => {
+        if (collider.surface?.launch || collider.max.y <= groundY + HEIGHT_EPSILON) return;
+        const top = { y: collider.max.y, minX: collider.min.x, maxX: collider.max.x, oneWay: !!collider.oneWay };
+        const touching = tops.find(other =>
+            Math.abs(other.y - top.y) < HEIGHT_EPSILON &&
+            other.oneWay === top.oneWay &&
+            other.minX <= top.maxX && top.minX <= other.maxX);
+        if (touching) {
+            touching.minX = Math.min(touching.minX, top.minX);
+            touching.maxX = Math.max(touching.maxX, top.maxX);
+        } else {
+            tops.push(top);
+        }
+    });
+
+    // Cut out wherever a body standing on the top would be inside something solid, and
+    // the jump pads
+    const halfWidth = PHYSICS.BODY.WIDTH / 2;
+    const surfaces: INavSurface[] = [];
+    tops.forEach(top => {
+        const standing: IBounds = {
+            min: { x: top.minX - halfWidth, y: top.y },
+            max: { x: top.maxX + halfWidth, y: top.y + PHYSICS.BODY.HEIGHT }
+        };
+        const cuts = colliders
+            .filter(collider => (!collider.oneWay && boundsOverlap(standing, collider)) ||
+                (collider.surface?.launch && Math.abs(collider.max.y - top.y) < HEIGHT_EPSILON))
+            .map(collider => ({ min: collider.min.x - halfWidth, max: collider.max.x + halfWidth }))
+            .sort((a, b) => a.min - b.min);
+
+        let start = top.minX;
+        const addPiece = (end: number) => {
+            if (end - start < GAME.NAV.MIN_SURFACE_WIDTH) return;
+            surfaces.push({ id: surfaces.length, y: top.y, minX: start, maxX: end, oneWay: top.oneWay });
+        };
+        for (const cut of cuts) {
+            if (cut.max <= start) continue;
+            if (cut.min >= top.maxX) break;
+            addPiece(Math.min(cut.min, top.maxX));
+            start = cut.max;
+        }
+        if (start < top.maxX) {
+            addPiece(top.maxX);
+        }
+    });
+
+    return surfaces;
+}
+
+// Nodes in from each end of the surface and evenly between them, NODE_SPACING apart at most.
+// Ids are filled in once every surface has its nodes.
+function placeNodes(surface: INavSurface): INavNode[] {
+    const inset = GAME.NAV.EDGE_INSET;
+    const minX = surface.minX + inset;
+    const maxX = surface.maxX - inset;
+    if (maxX <= minX) {
+        return [{ id: -1, surface: surface.id, x: (surface.minX + surface.maxX) / 2, y: surface.y }];
+    }
+
+    const count = Math.ceil((maxX - minX) / GAME.NAV.NODE_SPACING) + 1;
+    const spacing = (maxX - minX) / (count - 1);
+    return Array.from({ length: count }, (_, index) => ({
+        id: -1,
+        surface: surface.id,
+        x: minX + index * spacing,
+        y: surface.y
+    }));
+}
+
+// 32-bit FNV-1a, as hex - plenty to tell one set of constants from another
+function hashString(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let index = 0; index < text.length; index++) {
+        hash ^= text.charCodeAt(index);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,320 @@
+import * as THREE from 'three';
+import { ICollider, PhysicsBody, PHYSICS } from '../../physics';
+import { GAME } from '../core/GameConstants';
+import { NavLinkType } from './NavGraph';
+
+// Input held for a run of fixed timesteps
+export interface IInputStep {
+    frames: number;
+    moveX: number;
+    jump: boolean;
+    jet: boolean;
+    drop: boolean;
+}
+
+// Where a move sets off from: feet on a surface, standing still
+export interface IPlatformPoint {
+    x: number;
+    y: number;
+}
+
+// Stretch of surface a move has to end up standing on, aiming for `x`
+export interface IPlatformTarget extends IPlatformPoint {
+    minX: number;
+    maxX: number;
+}
+
+// How to get from one platform to another, found by actually simulating a body doing it
+export interface IReachabilityPlan {
+    type: Exclude<NavLinkType, 'walk'>;
+    inputs: IInputStep[];       // Replayed step by step from a standstill at the start
+    time: number;               // Seconds until standing on the target
+    fuel: number;               // Most jet fuel used at any point - the tank needs this much to start
+    landingSpeed: number;       // Downward speed on touching down (0 when a jump pad cushions it)
+}
+
+type MoveInput = Omit<IInputStep, 'frames'>;
+
+// Picks the input for the next step of a move from the body's state and the step number
+type MoveController = (body: PhysicsBody, frame: number) => MoveInput | null;
+
+interface IMoveVariant {
+    type: IReachabilityPlan['type'];
+    controller: MoveController;
+}
+
+interface ISimulationResult {
+    inputs: MoveInput[];
+    landed: boolean;            // Came to rest on the target
+    fuel: number;
+    landingSpeed: number;
+}
+
+const IDLE: MoveInput = { moveX: 0, jump: false, jet: false, drop: false };
+// Feet within this of a surface's height count as standing on it
+const HEIGHT_TOLERANCE = 0.05;
+
+/**
+ * Works out whether a body standing at one platform point can get onto a target platform,
+ * and with what input. Every candidate move - dropping through, walking off the edge,
+ * standing and running jumps, jetting over - is flown by a real PhysicsBody against the
+ * level's colliders, so the answer holds to the actual jump force, air control, gravity
+ * and jet fuel. The input it used is recorded, and only kept if replaying it still lands
+ * when starting a little to either side, since a bot won't line up exactly.
+ *
+ * Jets are only tried when nothing cheaper makes it, keeping the fuel for fights.
+ */
+export class ReachabilityPlanner {
+    private colliders: ICollider[];
+    private limits: { jumpHeight: number; jetHeight: number } | null = null;
+
+    constructor(colliders: readonly ICollider[]) {
+        this.colliders = [...colliders];
+    }
+
+    // Cheapest way onto the target, or null when there's no getting there
+    plan(from: IPlatformPoint, to: IPlatformTarget): IReachabilityPlan | null {
+        const rise = to.y - from.y;
+        const limits = this.getLimits();
+        if (rise > limits.jetHeight) return null;
+
+        const groundMoves: IMoveVariant[] = [];
+        if (rise < 0) {
+            if (this.isOnOneWayPlatform(from)) {
+                groundMoves.push({ type: 'drop', controller: dropController(to) });
+            }
+            groundMoves.push({ type: 'fall', controller: fallController(from, to) });
+        }
+        if (rise <= limits.jumpHeight) {
+            groundMoves.push({ type: 'jump', controller: jumpController(from, to, 0, false) });
+            groundMoves.push({ type: 'jump', controller: jumpController(from, to, 0, true) });
+            groundMoves.push({ type: 'jump', controller: jumpController(from, to, GAME.NAV.RUN_UP, false) });
+        }
+
+        const jetMoves: IMoveVariant[] = [
+            { type: 'jet', controller: jetController(from, to, true) },
+            { type: 'jet', controller: jetController(from, to, false) }
+        ];
+
+        return this.findCheapest(from, to, groundMoves) ?? this.findCheapest(from, to, jetMoves);
+    }
+
+    // Fly a recorded input sequence from a standstill at `from` and say whether it ends up
+    // standing on the target
+    replay(from: IPlatformPoint, to: IPlatformTarget, inputs: readonly IInputStep[]): boolean {
+        const steps = inputs.flatMap(step => Array.from({ length: step.frames }, () => step));
+        return this.simulate(from, to, (_, frame) => steps[frame] ?? null)?.landed ?? false;
+    }
+
+    // Seconds a plan is expected to take, with penalties for burning fuel and for landing
+    // hard enough to get hurt
+    static getCost(plan: IReachabilityPlan): number {
+        let cost = plan.time;
+        if (plan.type === 'jet') cost += GAME.NAV.JET_PENALTY;
+        if (plan.landingSpeed >= PHYSICS.FALL_DAMAGE.MIN_SPEED) cost += GAME.NAV.FALL_DAMAGE_PENALTY;
+        return cost;
+    }
+
+    private findCheapest(from: IPlatformPoint, to: IPlatformTarget, moves: readonly IMoveVariant[]): IReachabilityPlan | null {
+        let best: IReachabilityPlan | null = null;
+        for (const move of moves) {
+            const result = this.simulate(from, to, move.controller);
+            if (!result?.landed) continue;
+
+            const plan: IReachabilityPlan = {
+                type: move.type,
+                inputs: compressInputs(result.inputs),
+                time: result.inputs.length * PHYSICS.TIME.FIXED_TIMESTEP,
+                fuel: result.fuel,
+                landingSpeed: result.landingSpeed
+            };
+            if (best && ReachabilityPlanner.getCost(plan) >= ReachabilityPlanner.getCost(best)) continue;
+
+            // Has to work from anywhere a bot might be standing when it sets off
+            const tolerance = GAME.NAV.START_TOLERANCE;
+            const robust = [-tolerance, tolerance].every(offset =>
+                this.replay({ x: from.x + offset, y: from.y }, to, plan.inputs));
+            if (robust) best = plan;
+        }
+        return best;
+    }
+
+    // Step a body standing at `from` under the controller until it touches down again, the
+    // controller runs out of input or it takes too long. Null when the body can't stand
+    // still there to begin with (off the edge, or carried along by a conveyor).
+    private simulate(from: IPlatformPoint, to: IPlatformTarget, controller: MoveController): ISimulationResult | null {
+        const step = PHYSICS.TIME.FIXED_TIMESTEP;
+        const body = new PhysicsBody(new THREE.Vector3(from.x, from.y, 0), this.colliders);
+        // The first step finds what we're standing on, the second whether it carries us off
+        body.update(step, IDLE);
+        body.update(step, IDLE);
+        const start = body.getState();
+        if (!start.grounded || Math.abs(start.position.y - from.y) > HEIGHT_TOLERANCE) return null;
+        if (Math.abs(start.velocity.x) > 0) return null;
+
+        const inputs: MoveInput[] = [];
+        let leftGround = false;
+        let lowestFuel = body.getState().fuel;
+        let landingSpeed = 0;
+        const maxFrames = Math.ceil(GAME.NAV.MAX_MOVE_TIME / step);
+
+        for (let frame = 0; frame < maxFrames; frame++) {
+            const input = controller(body, frame);
+            if (!input) break;
+            inputs.push(input);
+            body.update(step, input);
+
+            const state = body.getState();
+            lowestFuel = Math.min(lowestFuel, state.fuel);
+            for (const event of body.getEvents()) {
+                if (event.type === 'land') landingSpeed = event.cushioned ? 0 : event.impactSpeed;
+            }
+
+            if (leftGround && state.grounded) {
+                return {
+                    inputs,
+                    landed: isStandingOn(state.position, to),
+                    fuel: PHYSICS.JET.FUEL.MAX - lowestFuel,
+                    landingSpeed
+                };
+            }
+            leftGround = leftGround || !state.grounded;
+        }
+
+        return { inputs, landed: false, fuel: PHYSICS.JET.FUEL.MAX - lowestFuel, landingSpeed };
+    }
+
+    private isOnOneWayPlatform(point: IPlatformPoint): boolean {
+        const halfWidth = PHYSICS.BODY.WIDTH / 2;
+        return this.colliders.some(collider =>
+            collider.oneWay &&
+            Math.abs(collider.max.y - point.y) <= HEIGHT_TOLERANCE &&
+            collider.min.x < point.x + halfWidth && point.x - halfWidth < collider.max.x);
+    }
+
+    // How high a standing jump and a full tank of jet can lift a body - nothing above
+    // that is worth simulating
+    private getLimits(): { jumpHeight: number; jetHeight: number } {
+        if (!this.limits) {
+            this.limits = {
+                jumpHeight: measureApex({ ...IDLE, jump: true }),
+                jetHeight: measureApex({ ...IDLE, jump: true, jet: true })
+            };
+        }
+        return this.limits;
+    }
+}
+
+// Drop through the platform underfoot and steer onto the target
+function dropController(to: IPlatformTarget): MoveController {
+    return (body, frame) => frame === 0
+        ? { ...IDLE, drop: true }
+        : { ...IDLE, moveX: steer(body, to.x) };
+}
+
+// Walk off the edge towards the target, then steer onto it
+function fallController(from: IPlatformPoint, to: IPlatformTarget): MoveController {
+    const direction = Math.sign(to.x - from.x) || 1;
+    return (body) => ({ ...IDLE, moveX: body.isGrounded() ? direction : steer(body, to.x) });
+}
+
+// Jump for the target, holding jump to the top. With a run-up, back off first and take
+// off at a run from the start point. When climbing first, hold off steering on the way up
+// until the feet are above the target, so the body doesn't catch the platform's side.
+function jumpController(from: IPlatformPoint, to: IPlatformTarget, runUp: number, climbFirst: boolean): MoveController {
+    const direction = Math.sign(to.x - from.x) || 1;
+    let phase: 'backOff' | 'run' | 'air' = runUp > 0 ? 'backOff' : 'air';
+    let jumped = false;
+
+    return (body) => {
+        const state = body.getState();
+        if (phase === 'backOff') {
+            const behind = (from.x - state.position.x) * direction;
+            const blocked = direction > 0 ? state.collisions.left : state.collisions.right;
+            if (behind < runUp && !blocked) return { ...IDLE, moveX: -direction };
+            phase = 'run';
+        }
+        if (phase === 'run') {
+            if ((state.position.x - from.x) * direction < 0) return { ...IDLE, moveX: direction };
+            phase = 'air';
+        }
+
+        // Press jump on the first step of the air phase, hold it until the top
+        const rising = !jumped || state.velocity.y > 0;
+        const waiting = climbFirst && rising && state.position.y < to.y + GAME.NAV.JET_CLEARANCE;
+        jumped = true;
+        return { ...IDLE, jump: rising, moveX: waiting ? 0 : steer(body, to.x) };
+    };
+}
+
+// Jump and jet up to just over the higher end, fly across and cut the jet over the target
+// to drop onto it. When climbing first, rise straight up before heading across.
+function jetController(from: IPlatformPoint, to: IPlatformTarget, climbFirst: boolean): MoveController {
+    const cruise = Math.max(from.y, to.y) + GAME.NAV.JET_CLEARANCE;
+    const gravity = Math.abs(PHYSICS.GRAVITY);
+    let crossing = !climbFirst;
+
+    return (body, frame) => {
+        const state = body.getState();
+        const { y } = state.position;
+        const velocityY = state.velocity.y;
+        crossing = crossing || y >= cruise - GAME.NAV.JET_CLEARANCE / 2;
+        const overTarget = Math.abs(state.position.x - to.x) <= GAME.NAV.START_TOLERANCE;
+
+        // Where we'd level off - coasting up with the jet off, or braking a fall with it on -
+        // so the jet holds the cruise height rather than bobbing down into the floor
+        const levelOff = velocityY > 0
+            ? y + velocityY * velocityY / (2 * gravity)
+            : y - velocityY * velocityY / (2 * (PHYSICS.JET.FORCE - gravity));
+        return {
+            ...IDLE,
+            jump: frame === 0,
+            jet: !(crossing && overTarget) && levelOff < cruise,
+            moveX: crossing ? steer(body, to.x) : steer(body, from.x)
+        };
+    };
+}
+
+// Air control towards x, easing off over the last STEER_DISTANCE so it settles there.
+// Rounded to quarters so runs of the same input can be merged.
+function steer(body: PhysicsBody, x: number): number {
+    const offset = x - body.getState().position.x;
+    return Math.round(THREE.MathUtils.clamp(offset / GAME.NAV.STEER_DISTANCE, -1, 1) * 4) / 4;
+}
+
+function isStandingOn(position: { x: number; y: number }, target: IPlatformTarget): boolean {
+    const halfWidth = PHYSICS.BODY.WIDTH / 2;
+    return Math.abs(position.y - target.y) <= HEIGHT_TOLERANCE &&
+        position.x >= target.minX - halfWidth &&
+        position.x <= target.maxX + halfWidth;
+}
+
+// Highest a body gets holding this input from a standstill, far from anything
+function measureApex(input: MoveInput): number {
+    const body = new PhysicsBody(new THREE.Vector3(0, 0, 0));
+    const step = PHYSICS.TIME.FIXED_TIMESTEP;
+    body.update(step, IDLE);
+    let apex = 0;
+    for (let frame = 0; frame < GAME.NAV.MAX_MOVE_TIME / step; frame++) {
+        body.update(step, input);
+        const state = body.getState();
+        apex = Math.max(apex, state.position.y);
+        if (state.velocity.y < 0 && state.fuel <= 0) break;
+        if (state.velocity.y < 0 && !input.jet) break;
+    }
+    return apex;
+}
+
+// Merge runs of identical input into steps
+function compressInputs(inputs: readonly MoveInput[]): IInputStep[] {
+    const steps: IInputStep[] = [];
+    for (const input of inputs) {
+        const last = steps[steps.length - 1];
+        if (last && last.moveX === input.moveX && last.jump === input.jump && last.jet === input.jet && last.drop === input.drop) {
+            last.frames++;
+        } else {
+            steps.push({ frames: 1, ...input });
+        }
+    }
+    return steps;
+}
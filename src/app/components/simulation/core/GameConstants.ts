@@ -0,0 +1,80 @@
+import { WeaponId } from '../../weapons';
+
+// Gameplay tuning that isn't raw physics (see PhysicsConstants for that)
+export const GAME = {
+    PLAYER: {
+        // Where shots leave the player, relative to the feet, on the facing side
+        MUZZLE_OFFSET: { x: 1.0, y: 3.0 },
+        // Weapons every player spawns with, in slot order
+        DEFAULT_LOADOUT: ['rifle', 'pistol', 'shotgun', 'launcher', 'beam', 'smart'] as readonly WeaponId[]
+    },
+    PROJECTILES: {
+        MAX_ACTIVE: 100      // Oldest projectile is dropped when this many are in flight
+    },
+    WEAPON: {
+        SPREAD_PER_RECOIL: 0.02, // Random aim deviation per unit of accumulated recoil
+        HOLSTER_TIME: 0.2,       // Seconds to put the current weapon away when switching
+        DRAW_TIME: 0.25          // Seconds to bring the new weapon up before it can fire
+    },
+    HEALTH: {
+        MAX_HEALTH: 100,
+        MAX_ARMOR: 50,
+        ARMOR_ABSORPTION: 0.5,  // Share of each hit taken by armor while it lasts
+        // Hit location by height up the hitbox (0 = feet, 1 = top of the head)
+        HEAD_HEIGHT: 0.8,       // Hits above this are headshots
+        LEGS_HEIGHT: 0.4,       // Hits below this are leg shots
+        LOCATION_MULTIPLIER: {
+            head: 2.0,
+            body: 1.0,
+            legs: 0.75
+        }
+    },
+    EXPLOSION: {
+        SELF_DAMAGE_MULTIPLIER: 0.5  // Share of blast damage taken from your own explosives
+    },
+    TEAMS: {
+        FRIENDLY_FIRE: false         // Whether teammates can hurt each other
+    },
+    SPAWN: {
+        RESPAWN_TIME: 3,             // Seconds dead before coming back, where respawning is on
+        PROTECTION_TIME: 2,          // Seconds of immunity after spawning - ends early on firing
+        CANDIDATE_SPACING: 1.5,      // Gap between the spawn points tried along a zone
+        PERSONAL_SPACE: 1.5,         // Points closer than this to anyone are a last resort, so teammates don't stack
+        // Spawn points score higher the further they are from these, up to the given distance
+        ENEMY_SAFE_DISTANCE: 15,
+        DEATH_SAFE_DISTANCE: 8,
+        DEATH_MEMORY: 10             // Seconds a death keeps counting against nearby spawn points
+    },
+    MATCH: {
+        ROUNDS: 5,           // Best of N - first side to win a majority takes the match
+        PREP_TIME: 15,       // Seconds frozen in spawn before each round
+        ACTION_TIME: 150,    // Seconds of fighting before the round goes to the tiebreak
+        REVIEW_TIME: 10      // Seconds to look over the result before the next round
+    },
+    // Navigation graph bots find their way around the level with
+    NAV: {
+        NODE_SPACING: 2.5,           // Most distance between neighbouring nodes along a surface
+        EDGE_INSET: 0.4,             // How far in from the end of a surface its end nodes sit
+        MIN_SURFACE_WIDTH: 0.2,      // Narrower footholds are left out of the graph
+        FLOOR_MARGIN: 10,            // How far the floor reaches past the level geometry
+        MAX_LINK_DISTANCE: 14,       // Nodes further apart than this horizontally are never linked directly
+        JET_CLEARANCE: 0.8,          // Height over the higher end of a jet link the crossing is flown at
+        JET_PENALTY: 1.0,            // Seconds added to jet links so bots save fuel for when they need it
+        FALL_DAMAGE_PENALTY: 3.0,    // Seconds added to moves that land hard enough to hurt
+        RUN_UP: 0.75,                // Distance backed off to take a running jump
+        STEER_DISTANCE: 1,           // Air control eases off this close to where it's heading
+        START_TOLERANCE: 0.15,       // How far off the takeoff point a planned move still has to work from
+        MAX_MOVE_TIME: 6             // Longest a planned move may take, in seconds
+    },
+    BOT: {
+        THINK_INTERVAL: 0.2,         // Seconds between decisions - also how slowly they react
+        AIM_ERROR: 0.04,             // Random aim offset per metre of distance to the target
+        ENGAGE_RANGE: 30,            // Opens fire on targets in sight closer than this
+        PREFERRED_RANGE: 12,         // Stops closing in on a target in sight at this distance
+        RETREAT_HEALTH: 0.35,        // Share of health below which it breaks off to take cover
+        COVER_TIME: 3,               // Seconds spent in cover before fighting on
+        COVER_SEARCH_COST: 6,        // Furthest cover worth running to, in seconds of travel
+        ARRIVE_DISTANCE: 0.3,        // How close to a node counts as being there
+        LINK_TIMEOUT: 2              // Extra seconds allowed on a link before giving up and replanning
+    }
+} as const;
@@ -0,0 +1,616 @@
+import * as THREE from 'three';
+import {
+    FixedTimestep,
+    Projectile,
+    ProjectileConfig,
+    ProjectileHitTarget,
+    IExplosiveConfig,
+    IProjectileHit,
+    ICollider,
+    IBounds,
+    IHitbox,
+    ISweepHit,
+    DEFAULT_SURFACE_MATERIAL,
+    sweepCollider,
+    sweepSegment,
+    PHYSICS
+} from '../../physics';
+import { GameWorld } from './GameWorld';
+import { Player } from './Player';
+import { IDamageInfo, IDamageResult, HitLocation } from './Health';
+import { IPlayerInput } from './PlayerInput';
+import { Random } from './Random';
+import { GAME } from './GameConstants';
+import { MatchController, IMatchConfig, SideResolver } from './MatchController';
+import { TeamId, TEAM_IDS, getOpposingTeam } from './Team';
+import { SpawnSystem, ISpawnZone } from './SpawnSystem';
+import { BotController } from '../bots/BotController';
+import { INavGraphData } from '../bots/NavGraph';
+import { SimulationEventEmitter, ISimulationEventMap } from './SimulationEvents';
+
+export interface IGameSimulationOptions {
+    colliders?: ICollider[];
+    spawnZones?: ISpawnZone[];
+    navGraph?: INavGraphData;     // Baked for the colliders - planned from scratch when missing or out of date
+    seed?: number;
+    friendlyFire?: boolean;       // Defaults to GAME.TEAMS.FRIENDLY_FIRE
+    respawnTime?: number | null;  // Defaults to GAME.SPAWN.RESPAWN_TIME, null to stay dead
+}
+
+// A beam weapon's ray for the current step, from the muzzle to whatever stopped it
+export interface IBeam {
+    playerId: string;
+    origin: THREE.Vector3;
+    end: THREE.Vector3;
+    hit: IProjectileHit | null;   // Null when the beam ran out of range without touching anything
+}
+
+/**
+ * Framework-free game simulation: players, projectiles and the world, advanced in
+ * fixed steps. Nothing here touches React or the renderer, so it can be stepped
+ * from tests, tools or a server; the R3F components are just views onto it.
+ */
+export class GameSimulation {
+    readonly world: GameWorld;
+    readonly events = new SimulationEventEmitter();
+    readonly random: Random;
+    // Whether teammates can damage each other (your own explosives always can)
+    friendlyFire: boolean;
+    // Seconds the dead wait before respawning, null to stay dead. Elimination matches
+    // switch respawning off whatever this says - see IMatchConfig.respawns.
+    respawnTime: number | null;
+
+    private players = new Map<string, Player>();
+    // AI driving some of the players' input
+    private bots = new Map<string, BotController>();
+    private projectiles: Projectile[] = [];
+    // Beams fired during the last step
+    private beams: IBeam[] = [];
+    // Round and score flow, when a match is being played
+    private match: MatchController | null = null;
+    private spawns: SpawnSystem;
+    private timestep = new FixedTimestep();
+    private tick: number = 0;
+    private time: number = 0;
+
+    constructor(options: IGameSimulationOptions = {}) {
+        this.world = new GameWorld(options.colliders, options.spawnZones, options.navGraph);
+        this.random = new Random(options.seed);
+        this.friendlyFire = options.friendlyFire ?? GAME.TEAMS.FRIENDLY_FIRE;
+        this.respawnTime = options.respawnTime !== undefined ? options.respawnTime : GAME.SPAWN.RESPAWN_TIME;
+        this.spawns = new SpawnSystem(this.random);
+    }
+
+    // Add a player at the given position, or wherever the spawn zones suggest when left out
+    addPlayer(id: string, spawnPosition?: THREE.Vector3, team: TeamId | null = null): Player {
+        const position = spawnPosition ?? this.findSpawnPosition(id, team) ?? new THREE.Vector3();
+        const player = new Player(id, position, this.world.colliders, team);
+        this.players.set(id, player);
+        this.events.emit('playerAdded', { playerId: id });
+        return player;
+    }
+
+    // Add a player driven by AI rather than a person - see BotController
+    addBot(id: string, spawnPosition?: THREE.Vector3, team: TeamId | null = null): Player {
+        const player = this.addPlayer(id, spawnPosition, team);
+        this.bots.set(id, new BotController(this, player));
+        return player;
+    }
+
+    getBot(id: string): BotController | undefined {
+        return this.bots.get(id);
+    }
+
+    setTeam(id: string, team: TeamId | null) {
+        const player = this.players.get(id);
+        if (!player || player.team === team) return;
+        player.team = team;
+        this.events.emit('teamChanged', { playerId: id, team });
+    }
+
+    // Team with the fewest players, for balancing newcomers (Syntax on a tie)
+    getSmallestTeam(): TeamId {
+        const counts = TEAM_IDS.map(team => this.getPlayers().filter(player => player.team === team).length);
+        return counts[1] < counts[0] ? TEAM_IDS[1] : TEAM_IDS[0];
+    }
+
+    removePlayer(id: string) {
+        this.spawns.cancelRespawn(id);
+        this.bots.delete(id);
+        if (this.players.delete(id)) {
+            this.events.emit('playerRemoved', { playerId: id });
+        }
+    }
+
+    getPlayer(id: string): Player | undefined {
+        return this.players.get(id);
+    }
+
+    getPlayers(): Player[] {
+        return Array.from(this.players.values());
+    }
+
+    // Bring a player back at full health with refilled weapons and spawn protection - at the
+    // best point in their spawn zones unless told otherwise, or where they first joined
+    // when the level has none
+    respawnPlayer(id: string, position?: THREE.Vector3) {
+        const player = this.players.get(id);
+        if (!player) return;
+
+        const spawnPosition = position ?? this.findSpawnPosition(id, player.team) ?? player.spawnPosition;
+        this.spawns.cancelRespawn(id);
+        player.respawn(spawnPosition, GAME.SPAWN.PROTECTION_TIME);
+        this.events.emit('spawn', { playerId: id, position: spawnPosition.clone(), protection: GAME.SPAWN.PROTECTION_TIME });
+    }
+
+    // Seconds until a dead player respawns, null when they aren't waiting to
+    getRespawnTimeLeft(id: string): number | null {
+        return this.spawns.getRespawnTimeLeft(id);
+    }
+
+    // Forget recent deaths when choosing spawn points (e.g. when a new round starts)
+    clearRecentDeaths() {
+        this.spawns.clearDeaths();
+    }
+
+    // Start a best-of-N match with everyone currently in the game, replacing any match
+    // already running. Sides default to teams (every player for themselves without one).
+    startMatch(config: Partial<IMatchConfig> = {}, getSide?: SideResolver): MatchController {
+        this.match?.dispose();
+        this.match = new MatchController(this, config, getSide);
+        this.match.start();
+        return this.match;
+    }
+
+    // Stop the match and let everyone move freely again
+    endMatch() {
+        this.match?.dispose();
+        this.match = null;
+        this.players.forEach(player => { player.frozen = false; });
+    }
+
+    getMatch(): MatchController | null {
+        return this.match;
+    }
+
+    setInput(id: string, input: Partial<IPlayerInput>) {
+        this.players.get(id)?.setInput(input);
+    }
+
+    setColliders(colliders: ICollider[]) {
+        this.world.colliders = colliders;
+        this.players.forEach(player => player.body.setColliders(colliders));
+    }
+
+    // Run damage through the player's armor and health, announcing the hit and any death.
+    // Hits from a teammate do nothing unless friendly fire is on.
+    applyDamage(playerId: string, damage: IDamageInfo): IDamageResult | null {
+        const player = this.players.get(playerId);
+        if (!player || !this.canBeHurtBy(player, damage.sourceId)) return null;
+
+        const result = player.health.applyDamage(damage);
+        this.events.emit('damage', {
+            playerId,
+            damage,
+            result,
+            health: player.health.health,
+            armor: player.health.armor
+        });
+
+        if (result.killed) {
+            this.events.emit('death', { playerId, killerId: damage.sourceId, damage });
+            this.spawns.recordDeath(player.body.getState().position);
+            const respawnDelay = this.getRespawnDelay();
+            if (respawnDelay !== null) {
+                this.spawns.scheduleRespawn(playerId, respawnDelay);
+            }
+        }
+
+        return result;
+    }
+
+    // Whether damage from sourceId would do anything to the player: not once they're dead
+    // or while spawn protected, and not from a teammate unless friendly fire is on
+    private canBeHurtBy(player: Player, sourceId?: string): boolean {
+        if (!player.isAlive() || player.isSpawnProtected()) return false;
+        const source = sourceId !== undefined ? this.players.get(sourceId) : undefined;
+        return this.friendlyFire || !source || source === player || !source.isTeammateOf(player);
+    }
+
+    // Blast at a point: damage and knockback for every player within the radius it could
+    // hurt, both falling off linearly with distance from the blast to the nearest edge of
+    // their body, and with how much of the body level geometry shelters from it
+    explode(position: THREE.Vector3, explosive: IExplosiveConfig, sourceId?: string) {
+        this.events.emit('explosion', { position: position.clone(), radius: explosive.radius, ownerId: sourceId });
+
+        this.players.forEach(player => {
+            if (!this.canBeHurtBy(player, sourceId)) return;
+
+            const bounds = player.body.getBounds();
+            const closestX = THREE.MathUtils.clamp(position.x, bounds.min.x, bounds.max.x);
+            const closestY = THREE.MathUtils.clamp(position.y, bounds.min.y, bounds.max.y);
+            const distance = Math.hypot(closestX - position.x, closestY - position.y);
+            if (distance > explosive.radius) return;
+
+            const falloff = (1 - distance / explosive.radius) * this.getBlastExposure(position, bounds);
+            if (falloff <= 0) return;
+
+            // Push away from the blast, measured from the middle of the body
+            const push = new THREE.Vector2(
+                (bounds.min.x + bounds.max.x) / 2 - position.x,
+                (bounds.min.y + bounds.max.y) / 2 - position.y
+            );
+            if (push.lengthSq() === 0) push.set(0, 1);
+            push.normalize().multiplyScalar(explosive.knockback * falloff);
+            player.body.applyImpulse(push);
+
+            const selfMultiplier = player.id === sourceId ? GAME.EXPLOSION.SELF_DAMAGE_MULTIPLIER : 1;
+            const amount = explosive.damage * falloff * selfMultiplier;
+            if (amount > 0) {
+                this.applyDamage(player.id, {
+                    amount,
+                    type: 'explosion',
+                    sourceId,
+                    point: position.clone()
+                });
+            }
+        });
+    }
+
+    // Share of the body (feet, middle and head) in the open from the blast - a wall or
+    // floor in the way shelters whatever it covers
+    private getBlastExposure(position: THREE.Vector3, bounds: IBounds): number {
+        const x = THREE.MathUtils.clamp(position.x, bounds.min.x, bounds.max.x);
+        const points = [0.1, 0.5, 0.9].map(share =>
+            new THREE.Vector3(x, THREE.MathUtils.lerp(bounds.min.y, bounds.max.y, share), position.z));
+        const exposed = points.filter(point =>
+            !this.world.colliders.some(collider => sweepCollider(position, point, collider) !== null));
+        return exposed.length / points.length;
+    }
+
+    spawnProjectile(config: ProjectileConfig): Projectile {
+        const projectile = new Projectile(config);
+        this.projectiles.push(projectile);
+
+        // Drop the oldest projectile when too many are in flight
+        if (this.projectiles.length > GAME.PROJECTILES.MAX_ACTIVE) {
+            this.projectiles.shift();
+        }
+
+        return projectile;
+    }
+
+    getProjectiles(): readonly Projectile[] {
+        return this.projectiles;
+    }
+
+    getBeams(): readonly IBeam[] {
+        return this.beams;
+    }
+
+    // First thing a ray from start to end touches - level geometry, the ground, or a living
+    // character other than ignoreId
+    raycast(start: THREE.Vector3, end: THREE.Vector3, ignoreId?: string): IProjectileHit | null {
+        const candidates: { sweep: ISweepHit | null; target: ProjectileHitTarget }[] = [];
+
+        for (const collider of this.world.colliders) {
+            candidates.push({
+                sweep: sweepCollider(start, end, collider),
+                target: { type: 'world', colliderId: collider.id, material: collider.material ?? DEFAULT_SURFACE_MATERIAL }
+            });
+        }
+        for (const hitbox of this.getHitboxes()) {
+            if (hitbox.id === ignoreId) continue;
+            candidates.push({ sweep: sweepSegment(start, end, hitbox), target: { type: 'character', id: hitbox.id } });
+        }
+
+        // The infinite ground plane
+        const groundY = PHYSICS.GROUND.Y_POSITION;
+        if (end.y < groundY && start.y >= groundY) {
+            const time = (groundY - start.y) / (end.y - start.y);
+            candidates.push({
+                sweep: { time, point: { x: THREE.MathUtils.lerp(start.x, end.x, time), y: groundY }, normal: { x: 0, y: 1 } },
+                target: { type: 'world', material: DEFAULT_SURFACE_MATERIAL }
+            });
+        }
+
+        let first: { sweep: ISweepHit; target: ProjectileHitTarget } | null = null;
+        for (const { sweep, target } of candidates) {
+            if (sweep && (!first || sweep.time < first.sweep.time)) {
+                first = { sweep, target };
+            }
+        }
+        if (!first) return null;
+
+        const { sweep, target } = first;
+        return {
+            point: new THREE.Vector3(sweep.point.x, sweep.point.y, THREE.MathUtils.lerp(start.z, end.z, sweep.time)),
+            normal: new THREE.Vector3(sweep.normal.x, sweep.normal.y, 0),
+            target
+        };
+    }
+
+    // Advance by a render frame's delta; runs zero or more fixed steps.
+    // Returns the number of steps run.
+    update(frameDelta: number): number {
+        return this.timestep.advance(frameDelta, (step) => this.step(step));
+    }
+
+    // Run exactly one simulation step
+    step(deltaTime: number = this.timestep.step) {
+        this.tick++;
+        this.time += deltaTime;
+        this.beams = [];
+
+        // Bots decide their input for the step just like a person would between frames
+        this.bots.forEach(bot => bot.update(deltaTime));
+
+        this.players.forEach(player => {
+            player.updateMovement(deltaTime);
+            this.emitMovementEvents(player);
+            if (player.updateWeapon(deltaTime)) {
+                this.fireWeapon(player, deltaTime);
+            }
+            this.emitWeaponEvents(player);
+        });
+
+        this.updateProjectiles(deltaTime);
+        this.spawns.update(deltaTime).forEach(id => this.respawnPlayer(id));
+        this.match?.update(deltaTime);
+    }
+
+    // Render interpolation factor between the last two steps
+    getAlpha(): number {
+        return this.timestep.getAlpha();
+    }
+
+    getTick(): number {
+        return this.tick;
+    }
+
+    getTime(): number {
+        return this.time;
+    }
+
+    on<K extends keyof ISimulationEventMap>(type: K, listener: (event: ISimulationEventMap[K]) => void): () => void {
+        return this.events.on(type, listener);
+    }
+
+    // How long the dead wait to respawn right now - null in an elimination match or when
+    // respawning is off
+    private getRespawnDelay(): number | null {
+        if (this.match && !this.match.config.respawns) return null;
+        return this.respawnTime;
+    }
+
+    // Best spawn point for a player from the level's spawn zones. Teams use each other's
+    // zones once a match has switched sides.
+    private findSpawnPosition(id: string, team: TeamId | null): THREE.Vector3 | null {
+        const zoneTeam = team && this.match?.sidesSwitched ? getOpposingTeam(team) : team;
+        return this.spawns.selectSpawnPoint(this.world.spawnZones, zoneTeam, team, this.getPlayers(), id);
+    }
+
+    // Move projectiles, sweeping them against the level and every character's hitbox
+    private updateProjectiles(deltaTime: number) {
+        const hitboxes = this.getHitboxes();
+
+        this.projectiles.forEach(projectile => {
+            projectile.update(deltaTime, this.world.colliders, hitboxes);
+            projectile.getImpacts().forEach(impact => {
+                this.events.emit('impact', { projectile, ownerId: projectile.ownerId, impact });
+            });
+
+            const hit = projectile.hit;
+            if (hit) {
+                this.events.emit('projectileHit', { projectile, ownerId: projectile.ownerId, hit });
+                this.applyProjectileHitDamage(projectile, hit);
+            }
+
+            if (projectile.detonation && projectile.explosive) {
+                this.explode(projectile.detonation, projectile.explosive, projectile.ownerId);
+            }
+        });
+        this.projectiles = this.projectiles.filter(projectile => projectile.isActive());
+    }
+
+    // Every living character's body, as something projectiles and beams can hit
+    private getHitboxes(): IHitbox[] {
+        return this.getPlayers()
+            .filter(player => player.isAlive())
+            .map(player => ({ id: player.id, team: player.team ?? undefined, ...player.body.getBounds() }));
+    }
+
+    // Direct hit on a character - scaled by where on the body it landed
+    private applyProjectileHitDamage(projectile: Projectile, hit: IProjectileHit) {
+        if (hit.target.type !== 'character' || projectile.damage <= 0) return;
+
+        const target = this.players.get(hit.target.id);
+        if (!target) return;
+
+        const hitLocation = getHitLocation(target, hit.point.y);
+        this.applyDamage(target.id, {
+            amount: projectile.getDamage() * GAME.HEALTH.LOCATION_MULTIPLIER[hitLocation],
+            type: 'projectile',
+            sourceId: projectile.ownerId,
+            hitLocation,
+            point: hit.point.clone()
+        });
+    }
+
+    // Re-emit what the player's physics body did this step, tagged with the player
+    private emitMovementEvents(player: Player) {
+        player.body.getEvents().forEach(event => {
+            switch (event.type) {
+                case 'jump':
+                    this.events.emit('jump', { playerId: player.id });
+                    break;
+                case 'wallJump':
+                    this.events.emit('wallJump', { playerId: player.id, direction: event.direction });
+                    break;
+                case 'launch':
+                    this.events.emit('launch', { playerId: player.id, speed: event.speed });
+                    break;
+                case 'land': {
+                    this.events.emit('land', { playerId: player.id, impactSpeed: event.impactSpeed, hard: event.hard });
+                    const amount = event.cushioned ? 0 : getFallDamage(event.impactSpeed);
+                    if (amount > 0) {
+                        this.applyDamage(player.id, { amount, type: 'fall', point: player.body.getPosition() });
+                    }
+                    break;
+                }
+            }
+        });
+    }
+
+    // Re-emit what the player's weapons did this step, tagged with the player
+    private emitWeaponEvents(player: Player) {
+        player.getEvents().forEach(event => {
+            switch (event.type) {
+                case 'weaponSwitchStart':
+                    this.events.emit('weaponSwitchStart', {
+                        playerId: player.id,
+                        fromSlot: event.fromSlot,
+                        toSlot: event.toSlot,
+                        duration: event.duration
+                    });
+                    break;
+                case 'weaponSwitched':
+                    this.events.emit('weaponSwitched', { playerId: player.id, slot: event.slot, weaponId: event.weaponId });
+                    break;
+            }
+        });
+
+        player.weapon.getEvents().forEach(event => {
+            switch (event.type) {
+                case 'reloadStart':
+                    this.events.emit('reloadStart', { playerId: player.id, duration: event.duration });
+                    break;
+                case 'reloadComplete':
+                    this.events.emit('reloadComplete', { playerId: player.id, ammo: event.ammo, reserve: event.reserve });
+                    break;
+                case 'dryFire':
+                    this.events.emit('dryFire', { playerId: player.id });
+                    break;
+                case 'overheat':
+                    this.events.emit('overheat', { playerId: player.id });
+                    break;
+            }
+        });
+    }
+
+    private fireWeapon(player: Player, deltaTime: number) {
+        const origin = player.getMuzzlePosition();
+        const config = player.weapon.config;
+
+        if (config.beam) {
+            const direction = this.fireBeam(player, origin, config.beam.range, config.damage * deltaTime);
+            this.applyRecoilPush(player, direction, config.recoilPush * deltaTime);
+            return;
+        }
+        if (!config.projectile) return;
+        const projectileConfig = config.projectile;
+
+        // Aim from the muzzle towards the aim point, deviated by recoil spread
+        const direction = new THREE.Vector3(
+            player.input.aim.x - origin.x,
+            player.input.aim.y - origin.y,
+            0
+        ).normalize();
+        const spread = player.weapon.getSpread();
+        direction.x += this.random.range(-0.5, 0.5) * spread;
+        direction.y += this.random.range(-0.5, 0.5) * spread;
+        direction.normalize();
+        this.applyRecoilPush(player, direction, config.recoilPush);
+
+        // One projectile per pellet, fanned out across the cone around the aim direction
+        const { count, coneAngle, pattern } = config.pellets;
+        const projectiles: Projectile[] = [];
+        for (let i = 0; i < count; i++) {
+            const angle = getPelletAngle(i, count, coneAngle, pattern, this.random);
+            const pelletDirection = direction.clone().applyAxisAngle(Z_AXIS, angle);
+
+            projectiles.push(this.spawnProjectile({
+                initialPosition: origin,
+                initialVelocity: pelletDirection,
+                speed: projectileConfig.speed,
+                lifetime: projectileConfig.lifetime,
+                size: projectileConfig.size,
+                gravity: PHYSICS.GRAVITY * projectileConfig.gravityScale,
+                ownerId: player.id,
+                ownerTeam: player.team ?? undefined,
+                damage: config.damage,
+                damageFalloff: projectileConfig.damageFalloff,
+                explosive: projectileConfig.explosive,
+                homing: projectileConfig.homing
+            }));
+        }
+
+        this.events.emit('shot', { playerId: player.id, origin, direction, projectiles });
+    }
+
+    // Kick the shooter back opposite the direction they fired - strong enough on heavy weapons
+    // to bend a jump or jetpack arc
+    private applyRecoilPush(player: Player, direction: THREE.Vector3, push: number) {
+        if (push <= 0) return;
+        player.body.applyImpulse({ x: -direction.x * push, y: -direction.y * push });
+    }
+
+    // Cast the beam straight at the aim point and burn whoever it touches for this step's share
+    // of damage. Returns the direction the beam was fired in.
+    private fireBeam(player: Player, origin: THREE.Vector3, range: number, damage: number): THREE.Vector3 {
+        const direction = new THREE.Vector3(
+            player.input.aim.x - origin.x,
+            player.input.aim.y - origin.y,
+            0
+        );
+        if (direction.lengthSq() === 0) direction.set(player.facing, 0, 0);
+        direction.normalize();
+
+        const end = origin.clone().addScaledVector(direction, range);
+        const hit = this.raycast(origin, end, player.id);
+        this.beams.push({ playerId: player.id, origin, end: hit ? hit.point.clone() : end, hit });
+
+        if (hit?.target.type !== 'character') return direction;
+        const target = this.players.get(hit.target.id);
+        if (!target) return direction;
+
+        const hitLocation = getHitLocation(target, hit.point.y);
+        this.applyDamage(target.id, {
+            amount: damage * GAME.HEALTH.LOCATION_MULTIPLIER[hitLocation],
+            type: 'beam',
+            sourceId: player.id,
+            hitLocation,
+            point: hit.point.clone()
+        });
+        return direction;
+    }
+}
+
+const Z_AXIS = new THREE.Vector3(0, 0, 1);
+
+// Angle of a pellet from the aim direction - evenly spaced across the cone for a fixed
+// pattern, anywhere inside it for a random one
+function getPelletAngle(index: number, count: number, coneAngle: number, pattern: 'random' | 'fixed', random: Random): number {
+    if (count <= 1 || coneAngle <= 0) return 0;
+    if (pattern === 'random') return random.range(-coneAngle / 2, coneAngle / 2);
+    return -coneAngle / 2 + coneAngle * (index / (count - 1));
+}
+
+// Damage for landing at the given speed - nothing below PHYSICS.FALL_DAMAGE.MIN_SPEED,
+// then ramping from MIN_DAMAGE to MAX_DAMAGE along the configured curve
+function getFallDamage(impactSpeed: number): number {
+    const { MIN_SPEED, MAX_SPEED, MIN_DAMAGE, MAX_DAMAGE, CURVE_EXPONENT } = PHYSICS.FALL_DAMAGE;
+    if (impactSpeed < MIN_SPEED) return 0;
+
+    const t = MAX_SPEED > MIN_SPEED ? Math.min(1, (impactSpeed - MIN_SPEED) / (MAX_SPEED - MIN_SPEED)) : 1;
+    return THREE.MathUtils.lerp(MIN_DAMAGE, MAX_DAMAGE, Math.pow(t, CURVE_EXPONENT));
+}
+
+// Head, body or legs, from how far up the player's hitbox the hit landed
+function getHitLocation(player: Player, hitY: number): HitLocation {
+    const bounds = player.body.getBounds();
+    const height = (hitY - bounds.min.y) / (bounds.max.y - bounds.min.y);
+    if (height >= GAME.HEALTH.HEAD_HEIGHT) return 'head';
+    if (height < GAME.HEALTH.LEGS_HEIGHT) return 'legs';
+    return 'body';
+}
@@ -0,0 +1,38 @@
+import { ICollider } from '../../physics';
+import { ISpawnZone } from './SpawnSystem';
+import { INavGraphData, NavGraph } from '../bots/NavGraph';
+
+// Static level state shared by everything in the simulation
+export class GameWorld {
+    colliders: ICollider[];
+    spawnZones: ISpawnZone[];
+    // Loaded (or planned, when there's no up-to-date baked graph) the first time a bot
+    // needs it, and again whenever the colliders are replaced
+    private navGraph: NavGraph | null = null;
+    private navGraphColliders: ICollider[] | null = null;
+    private bakedNavGraph: INavGraphData | null;
+
+    constructor(colliders: ICollider[] = [], spawnZones: ISpawnZone[] = [], bakedNavGraph?: INavGraphData) {
+        this.colliders = colliders;
+        this.spawnZones = spawnZones;
+        this.bakedNavGraph = bakedNavGraph ?? null;
+    }
+
+    getNavGraph(): NavGraph {
+        if (!this.navGraph || this.navGraphColliders !== this.colliders) {
+            this.navGraph = this.loadBakedNavGraph() ?? NavGraph.build(this.colliders);
+            this.navGraphColliders = this.colliders;
+        }
+        return this.navGraph;
+    }
+
+    // The baked graph, as long as it was planned for these colliders and today's physics
+    private loadBakedNavGraph(): NavGraph | null {
+        if (!this.bakedNavGraph) return null;
+        if (this.bakedNavGraph.hash !== NavGraph.getHash(this.colliders)) {
+            console.warn('Baked nav graph is out of date - planning a new one. Run `npm run nav:generate` to bake it.');
+            return null;
+        }
+        return NavGraph.fromData(this.bakedNavGraph);
+    }
+}
@@ -0,0 +1,69 @@
+import * as THREE from 'three';
+import { GAME } from './GameConstants';
+
+// What kind of damage was dealt - lets effects and resistances tell hits apart
+export type DamageType = 'projectile' | 'explosion' | 'beam' | 'fall';
+
+// Which part of the body a hit landed on
+export type HitLocation = 'head' | 'body' | 'legs';
+
+// Everything known about a single instance of damage
+export interface IDamageInfo {
+    amount: number;           // Damage before armor
+    type: DamageType;
+    sourceId?: string;        // Player responsible, if any
+    hitLocation?: HitLocation;
+    point?: THREE.Vector3;    // World position of the hit
+}
+
+// How a hit was split between armor and health
+export interface IDamageResult {
+    armorDamage: number;
+    healthDamage: number;
+    killed: boolean;          // This hit took the last of the health
+}
+
+// Health and armor for a character. Armor soaks up a share of incoming
+// damage until it runs out; whatever gets through comes off health.
+export class Health {
+    readonly maxHealth: number;
+    readonly maxArmor: number;
+    health: number;
+    armor: number;
+
+    constructor(maxHealth: number = GAME.HEALTH.MAX_HEALTH, maxArmor: number = GAME.HEALTH.MAX_ARMOR) {
+        this.maxHealth = maxHealth;
+        this.maxArmor = maxArmor;
+        this.health = maxHealth;
+        this.armor = maxArmor;
+    }
+
+    applyDamage(damage: IDamageInfo): IDamageResult {
+        if (this.isDead() || damage.amount <= 0) {
+            return { armorDamage: 0, healthDamage: 0, killed: false };
+        }
+
+        const armorDamage = Math.min(this.armor, damage.amount * GAME.HEALTH.ARMOR_ABSORPTION);
+        const healthDamage = Math.min(this.health, damage.amount - armorDamage);
+
+        this.armor -= armorDamage;
+        this.health -= healthDamage;
+
+        return { armorDamage, healthDamage, killed: this.health <= 0 };
+    }
+
+    heal(amount: number) {
+        if (this.isDead()) return;
+        this.health = Math.min(this.maxHealth, this.health + amount);
+    }
+
+    isDead(): boolean {
+        return this.health <= 0;
+    }
+
+    // Back to full health and armor (e.g. on respawn)
+    reset() {
+        this.health = this.maxHealth;
+        this.armor = this.maxArmor;
+    }
+}
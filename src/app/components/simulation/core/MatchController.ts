@@ -0,0 +1,247 @@
+import { GameSimulation } from './GameSimulation';
+import { Player } from './Player';
+import { GAME } from './GameConstants';
+
+// Where a match is in its flow. Rounds go prep -> action -> review; halftime falls
+// between the review of the middle round and the next prep.
+export type MatchPhase = 'waiting' | 'prep' | 'action' | 'review' | 'ended';
+
+// Why a round ended
+export type RoundEndReason = 'elimination' | 'timeout';
+
+export interface IMatchConfig {
+    rounds: number;       // Best of N
+    prepTime: number;     // Seconds, see GAME.MATCH
+    actionTime: number;
+    reviewTime: number;
+    respawns: boolean;    // Respawn the dead during a round and decide it on kills instead of elimination
+}
+
+export interface IRoundResult {
+    round: number;
+    winner: string | null;    // Winning side, null for a draw
+    reason: RoundEndReason;
+}
+
+// Which side a player fights for. Sides are just ids - by default a player's team, or the
+// player on their own when they don't have one.
+export type SideResolver = (player: Player) => string;
+
+const TEAM_OR_SELF: SideResolver = player => player.team ?? player.id;
+
+/**
+ * Runs a best-of-N match on top of the simulation: timed prep, action and review phases
+ * per round, respawning and freezing players as the phases change, deciding each round by
+ * elimination or on time (on kills when the dead respawn mid-round), and keeping score.
+ * Everything it does is announced through the simulation's events. Stepped by
+ * GameSimulation - see startMatch().
+ */
+export class MatchController {
+    readonly config: IMatchConfig;
+    phase: MatchPhase = 'waiting';
+    round: number = 0;
+    // Winning side once the match has ended (null for a draw)
+    winner: string | null = null;
+    // Teams start from each other's spawns after halftime
+    sidesSwitched: boolean = false;
+
+    private simulation: GameSimulation;
+    private getSide: SideResolver;
+    // Time left in the current phase
+    private phaseTime: number = 0;
+    // Sides that were in the fight when the action phase started
+    private roundSides = new Set<string>();
+    // Rounds won per side
+    private scores = new Map<string, number>();
+    private results: IRoundResult[] = [];
+    // Enemy kills per side this round - what decides respawn rounds
+    private roundKills = new Map<string, number>();
+    private unsubscribeDeath: () => void;
+
+    constructor(simulation: GameSimulation, config: Partial<IMatchConfig> = {}, getSide: SideResolver = TEAM_OR_SELF) {
+        this.simulation = simulation;
+        this.getSide = getSide;
+        this.config = {
+            rounds: config.rounds ?? GAME.MATCH.ROUNDS,
+            prepTime: config.prepTime ?? GAME.MATCH.PREP_TIME,
+            actionTime: config.actionTime ?? GAME.MATCH.ACTION_TIME,
+            reviewTime: config.reviewTime ?? GAME.MATCH.REVIEW_TIME,
+            respawns: config.respawns ?? false
+        };
+        this.unsubscribeDeath = simulation.on('death', event => this.countKill(event.playerId, event.killerId));
+    }
+
+    // Stop listening to the simulation - called when the match is replaced or ended
+    dispose() {
+        this.unsubscribeDeath();
+    }
+
+    start() {
+        this.scores.clear();
+        this.results = [];
+        this.winner = null;
+        this.sidesSwitched = false;
+        this.startRound(1);
+    }
+
+    // Advance the phase timers and check whether the round has been decided
+    update(deltaTime: number) {
+        if (this.phase === 'waiting' || this.phase === 'ended') return;
+
+        // Only the action phase lets players move and shoot
+        const frozen = this.phase !== 'action';
+        this.simulation.getPlayers().forEach(player => { player.frozen = frozen; });
+
+        if (this.phase === 'action' && !this.config.respawns) {
+            const survivors = this.getSurvivingSides();
+            if (this.roundSides.size >= 2 && survivors.size <= 1) {
+                this.endRound(survivors.values().next().value ?? null, 'elimination');
+                return;
+            }
+        }
+
+        this.phaseTime = Math.max(0, this.phaseTime - deltaTime);
+        if (this.phaseTime > 0) return;
+
+        switch (this.phase) {
+            case 'prep':
+                this.roundSides = new Set(this.simulation.getPlayers().map(player => this.getSide(player)));
+                this.enterPhase('action', this.config.actionTime);
+                break;
+            case 'action':
+                this.endRound(this.config.respawns ? this.getMostKills() : this.getTiebreakWinner(), 'timeout');
+                break;
+            case 'review':
+                if (this.isDecided()) {
+                    this.endMatch();
+                } else {
+                    if (this.round === this.getHalftimeRound()) {
+                        this.sidesSwitched = !this.sidesSwitched;
+                        this.simulation.events.emit('halftime', { round: this.round, sidesSwitched: this.sidesSwitched });
+                    }
+                    this.startRound(this.round + 1);
+                }
+                break;
+        }
+    }
+
+    // Seconds left in the current phase
+    getTimeLeft(): number {
+        return this.phaseTime;
+    }
+
+    getSideOf(playerId: string): string | null {
+        const player = this.simulation.getPlayer(playerId);
+        return player ? this.getSide(player) : null;
+    }
+
+    // Rounds won by a side
+    getScore(side: string): number {
+        return this.scores.get(side) ?? 0;
+    }
+
+    getScores(): Record<string, number> {
+        return Object.fromEntries(this.scores);
+    }
+
+    getResults(): readonly IRoundResult[] {
+        return this.results;
+    }
+
+    // Rounds played in the first half - the side switch comes after this one
+    getHalftimeRound(): number {
+        return Math.floor(this.config.rounds / 2);
+    }
+
+    // Everyone back into their spawn zones, alive and frozen for the prep phase. Deaths from
+    // the last round no longer count against spawn points.
+    private startRound(round: number) {
+        this.round = round;
+        this.roundKills.clear();
+        this.simulation.clearRecentDeaths();
+        this.simulation.getPlayers().forEach(player => {
+            this.simulation.respawnPlayer(player.id);
+            player.frozen = true;
+        });
+        this.enterPhase('prep', this.config.prepTime);
+    }
+
+    // Credit the killer's side with an enemy kill during the action phase. Suicides and
+    // teamkills don't count.
+    private countKill(victimId: string, killerId: string | undefined) {
+        if (this.phase !== 'action' || killerId === undefined) return;
+        const killerSide = this.getSideOf(killerId);
+        if (killerSide === null || killerSide === this.getSideOf(victimId)) return;
+        this.roundKills.set(killerSide, (this.roundKills.get(killerSide) ?? 0) + 1);
+    }
+
+    private endRound(winner: string | null, reason: RoundEndReason) {
+        if (winner !== null) {
+            this.scores.set(winner, this.getScore(winner) + 1);
+        }
+        this.results.push({ round: this.round, winner, reason });
+        this.simulation.events.emit('roundEnd', { round: this.round, winner, reason, scores: this.getScores() });
+        this.enterPhase('review', this.config.reviewTime);
+    }
+
+    // Most rounds won takes it; level on rounds is a draw. Players are let loose again.
+    private endMatch() {
+        const ranked = Array.from(this.scores.entries()).sort((a, b) => b[1] - a[1]);
+        const [first, second] = ranked;
+        this.winner = first && (!second || first[1] > second[1]) ? first[0] : null;
+
+        this.phase = 'ended';
+        this.phaseTime = 0;
+        this.simulation.getPlayers().forEach(player => { player.frozen = false; });
+        this.simulation.events.emit('matchPhase', { phase: 'ended', round: this.round, duration: 0 });
+        this.simulation.events.emit('matchEnd', { winner: this.winner, scores: this.getScores() });
+    }
+
+    private enterPhase(phase: MatchPhase, duration: number) {
+        this.phase = phase;
+        this.phaseTime = duration;
+        this.simulation.events.emit('matchPhase', { phase, round: this.round, duration });
+    }
+
+    // All rounds played, or one side has won more than half of them
+    private isDecided(): boolean {
+        if (this.round >= this.config.rounds) return true;
+        const needed = Math.floor(this.config.rounds / 2) + 1;
+        return Array.from(this.scores.values()).some(score => score >= needed);
+    }
+
+    private getSurvivingSides(): Set<string> {
+        return new Set(this.simulation.getPlayers()
+            .filter(player => player.isAlive())
+            .map(player => this.getSide(player)));
+    }
+
+    // Respawn rounds go to the side with the most kills; level on kills is a draw
+    private getMostKills(): string | null {
+        const ranked = Array.from(this.roundKills.entries()).sort((a, b) => b[1] - a[1]);
+        const [first, second] = ranked;
+        if (!first || (second && second[1] === first[1])) return null;
+        return first[0];
+    }
+
+    // On time, the side with the most players standing wins, then the one with the most
+    // health left between them. Still level is a draw.
+    private getTiebreakWinner(): string | null {
+        const standing = new Map<string, { alive: number; health: number }>();
+        this.simulation.getPlayers().forEach(player => {
+            if (!player.isAlive()) return;
+            const side = this.getSide(player);
+            const totals = standing.get(side) ?? { alive: 0, health: 0 };
+            totals.alive++;
+            totals.health += player.health.health;
+            standing.set(side, totals);
+        });
+
+        const ranked = Array.from(standing.entries())
+            .sort((a, b) => b[1].alive - a[1].alive || b[1].health - a[1].health);
+        const [first, second] = ranked;
+        if (!first) return null;
+        if (second && second[1].alive === first[1].alive && second[1].health === first[1].health) return null;
+        return first[0];
+    }
+}
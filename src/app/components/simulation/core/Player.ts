@@ -0,0 +1,229 @@
+import * as THREE from 'three';
+import { PhysicsBody, ICollider } from '../../physics';
+import { IPlayerInput, createEmptyInput } from './PlayerInput';
+import { Weapon } from './Weapon';
+import { WeaponId, getWeaponDefinition } from '../../weapons';
+import { Health } from './Health';
+import { GAME } from './GameConstants';
+import { TeamId } from './Team';
+
+// Discrete things the player did during a step, beyond what the body and weapon report
+export type PlayerEvent =
+    | { type: 'weaponSwitchStart'; fromSlot: number; toSlot: number; duration: number }
+    | { type: 'weaponSwitched'; slot: number; weaponId: WeaponId }; // New weapon is in hand, drawing
+
+// A character in the simulation: physics body, weapons, health and the input driving them.
+// Humans and bots are identical here - only where the input comes from differs.
+export class Player {
+    readonly id: string;
+    readonly body: PhysicsBody;
+    // Weapons carried, one per loadout slot, and the slot in hand
+    weapons: Weapon[] = [];
+    activeSlot: number = 0;
+    readonly health: Health;
+    // Faction fought for - null when playing for nobody but yourself
+    team: TeamId | null;
+    input: IPlayerInput = createEmptyInput();
+    // 1 when facing right, -1 when facing left (follows the aim point)
+    facing: 1 | -1 = 1;
+    // Where the player entered the game - respawns go back here unless told otherwise
+    spawnPosition: THREE.Vector3;
+    // Held in place between rounds: can still aim and switch weapons, but not move or fire
+    frozen: boolean = false;
+    // Time left immune to damage after spawning
+    spawnProtection: number = 0;
+
+    private previousFire: boolean = false;
+    private previousReload: boolean = false;
+    private triggerPulled: boolean = false;
+    // Weapon switching - the slot being switched to, and time left putting away / bringing up
+    private pendingSlot: number | null = null;
+    private holsterTime: number = 0;
+    private drawTime: number = 0;
+    // Events raised during the last weapon update
+    private events: PlayerEvent[] = [];
+
+    constructor(id: string, spawnPosition: THREE.Vector3, colliders: ICollider[], team: TeamId | null = null) {
+        this.id = id;
+        this.team = team;
+        this.spawnPosition = spawnPosition.clone();
+        this.body = new PhysicsBody(spawnPosition, colliders);
+        this.health = new Health();
+        this.setLoadout(GAME.PLAYER.DEFAULT_LOADOUT);
+    }
+
+    // Weapon currently in hand
+    get weapon(): Weapon {
+        return this.weapons[this.activeSlot];
+    }
+
+    isAlive(): boolean {
+        return !this.health.isDead();
+    }
+
+    isSpawnProtected(): boolean {
+        return this.spawnProtection > 0;
+    }
+
+    // On the same team as the other player (never true without a team)
+    isTeammateOf(other: Player): boolean {
+        return this.team !== null && this.team === other.team;
+    }
+
+    setInput(input: Partial<IPlayerInput>) {
+        this.input = { ...this.input, ...input };
+    }
+
+    // Replace the carried weapons with fresh ones, starting with the first slot in hand
+    setLoadout(ids: readonly WeaponId[]) {
+        if (ids.length === 0) {
+            console.error(`Player ${this.id} needs at least one weapon in their loadout`);
+            return;
+        }
+        this.weapons = ids.map(id => new Weapon(getWeaponDefinition(id)));
+        this.activeSlot = 0;
+        this.pendingSlot = null;
+        this.holsterTime = 0;
+        this.drawTime = 0;
+        this.input = { ...this.input, weaponSlot: 0 };
+    }
+
+    // Back to life at the given position - full health and armor, refilled weapons with the
+    // first slot in hand, a physics body with nothing carried over from before, and a moment
+    // of spawn protection
+    respawn(position: THREE.Vector3, protection: number = 0) {
+        this.health.reset();
+        this.spawnProtection = protection;
+        this.weapons.forEach(weapon => weapon.refill());
+        this.activeSlot = 0;
+        this.pendingSlot = null;
+        this.holsterTime = 0;
+        this.drawTime = 0;
+        this.input = { ...this.input, weaponSlot: 0, fire: false };
+        this.previousFire = false;
+        this.triggerPulled = false;
+        this.events = [];
+        this.body.reset(position);
+    }
+
+    // Putting one weapon away or bringing the next one up - no firing or reloading meanwhile
+    isSwitchingWeapon(): boolean {
+        return this.holsterTime > 0 || this.drawTime > 0;
+    }
+
+    // Events raised during the last weapon update (weapon switches)
+    getEvents(): readonly PlayerEvent[] {
+        return this.events;
+    }
+
+    // Request a single shot on the next step, independent of the held fire input
+    pullTrigger() {
+        this.triggerPulled = true;
+    }
+
+    // Movement and physics for one step
+    updateMovement(deltaTime: number) {
+        const position = this.body.getState().position;
+        if (this.input.aim.x !== position.x) {
+            this.facing = this.input.aim.x > position.x ? 1 : -1;
+        }
+
+        // The dead (and the frozen) keep falling but no longer respond to input
+        const canMove = this.isAlive() && !this.frozen;
+        this.body.update(deltaTime, {
+            jump: canMove && this.input.jump,
+            jet: canMove && this.input.jet,
+            moveX: canMove ? this.input.moveX : 0,
+            drop: canMove && this.input.drop
+        });
+    }
+
+    // Advance the weapons and decide whether the one in hand fires this step
+    updateWeapon(deltaTime: number): boolean {
+        this.events = [];
+        this.spawnProtection = Math.max(0, this.spawnProtection - deltaTime);
+        if (this.isAlive()) {
+            this.updateWeaponSwitch(deltaTime);
+        }
+        // Holstered weapons keep cooling down too (their reloads were cancelled when put away)
+        this.weapons.forEach(weapon => weapon.update(deltaTime));
+
+        // Automatic weapons fire while held, semi-automatic only on a fresh press
+        const firePressed = this.input.fire && !this.previousFire;
+        const freshPull = this.triggerPulled || firePressed;
+        const wantsToFire = freshPull || (this.input.fire && this.weapon.config.isAutomatic);
+        const reloadPressed = this.input.reload && !this.previousReload;
+        this.previousFire = this.input.fire;
+        this.previousReload = this.input.reload;
+        this.triggerPulled = false;
+
+        if (!this.isAlive() || this.frozen || this.isSwitchingWeapon()) return false;
+
+        if (reloadPressed) {
+            this.weapon.startReload();
+        }
+
+        if (!wantsToFire) return false;
+
+        // An empty magazine (or overheated beam) clicks once per pull rather than on every held step
+        if (this.weapon.isEmpty()) {
+            if (freshPull) this.weapon.dryFire();
+            return false;
+        }
+
+        if (!this.weapon.canFire()) return false;
+
+        // Shooting gives up spawn protection
+        this.spawnProtection = 0;
+        this.weapon.fire(deltaTime);
+        return true;
+    }
+
+    // Follow the requested loadout slot: holster the current weapon, swap, then draw the new one
+    private updateWeaponSwitch(deltaTime: number) {
+        const requested = this.input.weaponSlot;
+        const target = this.pendingSlot ?? this.activeSlot;
+
+        if (requested !== target && requested >= 0 && requested < this.weapons.length) {
+            if (requested === this.activeSlot) {
+                // Changed our mind while holstering - bring the current weapon back up
+                this.pendingSlot = null;
+                this.holsterTime = 0;
+                this.drawTime = GAME.WEAPON.DRAW_TIME;
+            } else {
+                if (this.pendingSlot === null) {
+                    this.holsterTime = GAME.WEAPON.HOLSTER_TIME;
+                    this.drawTime = 0;
+                    this.weapon.cancelReload();
+                }
+                this.pendingSlot = requested;
+            }
+            this.events.push({
+                type: 'weaponSwitchStart',
+                fromSlot: this.activeSlot,
+                toSlot: requested,
+                duration: this.holsterTime + GAME.WEAPON.DRAW_TIME
+            });
+        }
+
+        if (this.holsterTime > 0) {
+            this.holsterTime = Math.max(0, this.holsterTime - deltaTime);
+            if (this.holsterTime === 0 && this.pendingSlot !== null) {
+                this.activeSlot = this.pendingSlot;
+                this.pendingSlot = null;
+                this.drawTime = GAME.WEAPON.DRAW_TIME;
+                this.events.push({ type: 'weaponSwitched', slot: this.activeSlot, weaponId: this.weapon.definition.id });
+            }
+        } else if (this.drawTime > 0) {
+            this.drawTime = Math.max(0, this.drawTime - deltaTime);
+        }
+    }
+
+    // World position shots are fired from
+    getMuzzlePosition(): THREE.Vector3 {
+        const position = this.body.getPosition();
+        position.x += GAME.PLAYER.MUZZLE_OFFSET.x * this.facing;
+        position.y += GAME.PLAYER.MUZZLE_OFFSET.y;
+        return position;
+    }
+}
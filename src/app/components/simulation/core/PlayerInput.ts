@@ -0,0 +1,24 @@
+// Everything a player (human or bot) can ask their character to do in one step
+export interface IPlayerInput {
+    moveX: number;                    // Horizontal movement, -1 (left) to 1 (right)
+    jump: boolean;
+    jet: boolean;
+    drop: boolean;                    // Drop down through the one-way platform underfoot
+    fire: boolean;                    // Trigger held
+    reload: boolean;
+    weaponSlot: number;               // Loadout slot the player wants in hand
+    aim: { x: number; y: number };    // World-space point the player is aiming at
+}
+
+export function createEmptyInput(): IPlayerInput {
+    return {
+        moveX: 0,
+        jump: false,
+        jet: false,
+        drop: false,
+        fire: false,
+        reload: false,
+        weaponSlot: 0,
+        aim: { x: 0, y: 0 }
+    };
+}
@@ -0,0 +1,24 @@
+// Small seeded PRNG (mulberry32) so simulation randomness - weapon spread and
+// anything else that rolls dice - replays identically from the same seed.
+// Never use Math.random inside the simulation.
+export class Random {
+    private state: number;
+
+    constructor(seed: number = 1) {
+        this.state = seed >>> 0;
+    }
+
+    // Uniform float in [0, 1)
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    // Uniform float in [min, max)
+    range(min: number, max: number): number {
+        return min + (max - min) * this.next();
+    }
+}
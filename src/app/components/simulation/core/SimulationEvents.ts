@@ -0,0 +1,116 @@
+import * as THREE from 'three';
+import { Projectile, IProjectileHit, IProjectileImpact } from '../../physics';
+import { IDamageInfo, IDamageResult } from './Health';
+import { WeaponId } from '../../weapons';
+import { MatchPhase, RoundEndReason } from './MatchController';
+import { TeamId } from './Team';
+
+// A player's weapon fired this step
+export interface IShotEvent {
+    playerId: string;
+    origin: THREE.Vector3;
+    direction: THREE.Vector3;   // Aim direction, before per-pellet spread
+    projectiles: Projectile[];  // One per pellet
+}
+
+// A projectile struck a character or the level this step
+export interface IProjectileHitEvent {
+    projectile: Projectile;
+    ownerId?: string;
+    hit: IProjectileHit;
+}
+
+// A projectile ricocheted off, went through or stopped in level geometry this step
+export interface IImpactEvent {
+    projectile: Projectile;
+    ownerId?: string;
+    impact: IProjectileImpact;
+}
+
+// An explosive went off this step
+export interface IExplosionEvent {
+    position: THREE.Vector3;
+    radius: number;
+    ownerId?: string;
+}
+
+// A player took damage
+export interface IDamageEvent {
+    playerId: string;
+    damage: IDamageInfo;
+    result: IDamageResult;
+    health: number;           // Health and armor left after the hit
+    armor: number;
+}
+
+// A player's health reached zero
+export interface IDeathEvent {
+    playerId: string;
+    killerId?: string;
+    damage: IDamageInfo;      // The hit that did it
+}
+
+// A round was decided
+export interface IRoundEndEvent {
+    round: number;
+    winner: string | null;            // Winning side, null for a draw
+    reason: RoundEndReason;
+    scores: Record<string, number>;   // Rounds won per side, including this one
+}
+
+// All events the simulation emits, keyed by event name
+export interface ISimulationEventMap {
+    shot: IShotEvent;
+    projectileHit: IProjectileHitEvent;
+    impact: IImpactEvent;
+    explosion: IExplosionEvent;
+    reloadStart: { playerId: string; duration: number };
+    reloadComplete: { playerId: string; ammo: number; reserve: number };
+    dryFire: { playerId: string };
+    overheat: { playerId: string };
+    weaponSwitchStart: { playerId: string; fromSlot: number; toSlot: number; duration: number };
+    weaponSwitched: { playerId: string; slot: number; weaponId: WeaponId };
+    damage: IDamageEvent;
+    death: IDeathEvent;
+    jump: { playerId: string };
+    wallJump: { playerId: string; direction: -1 | 1 };
+    land: { playerId: string; impactSpeed: number; hard: boolean };
+    launch: { playerId: string; speed: number };
+    playerAdded: { playerId: string };
+    playerRemoved: { playerId: string };
+    teamChanged: { playerId: string; team: TeamId | null };
+    spawn: { playerId: string; position: THREE.Vector3; protection: number }; // Protection in seconds
+    matchPhase: { phase: MatchPhase; round: number; duration: number };
+    roundEnd: IRoundEndEvent;
+    halftime: { round: number; sidesSwitched: boolean }; // After the last round of the first half
+    matchEnd: { winner: string | null; scores: Record<string, number> };
+}
+
+type Listener<T> = (event: T) => void;
+
+// Minimal typed event emitter - lets views (sound, VFX, animation) react to
+// what happened inside a step without the simulation knowing about them
+export class SimulationEventEmitter {
+    private listeners: { [K in keyof ISimulationEventMap]?: Listener<ISimulationEventMap[K]>[] } = {};
+
+    // Subscribe to an event; returns an unsubscribe function
+    on<K extends keyof ISimulationEventMap>(type: K, listener: Listener<ISimulationEventMap[K]>): () => void {
+        const list = (this.listeners[type] ??= []) as Listener<ISimulationEventMap[K]>[];
+        list.push(listener);
+        return () => this.off(type, listener);
+    }
+
+    off<K extends keyof ISimulationEventMap>(type: K, listener: Listener<ISimulationEventMap[K]>) {
+        const list = this.listeners[type] as Listener<ISimulationEventMap[K]>[] | undefined;
+        if (!list) return;
+        const index = list.indexOf(listener);
+        if (index !== -1) list.splice(index, 1);
+    }
+
+    emit<K extends keyof ISimulationEventMap>(type: K, event: ISimulationEventMap[K]) {
+        const list = this.listeners[type] as Listener<ISimulationEventMap[K]>[] | undefined;
+        if (!list) return;
+        // Copy so listeners can unsubscribe while we iterate
+        [...list].forEach(listener => listener(event));
+    }
+}
@@ -0,0 +1,148 @@
+import * as THREE from 'three';
+import { IBounds, PHYSICS } from '../../physics';
+import { GAME } from './GameConstants';
+import { Player } from './Player';
+import { Random } from './Random';
+import { TeamId } from './Team';
+
+// Area players (re)spawn in, standing on its bottom edge. Zones without a team are open
+// to anyone without a zone of their own.
+export interface ISpawnZone extends IBounds {
+    id?: string;
+    team: TeamId | null;
+}
+
+interface IRecentDeath {
+    position: { x: number; y: number };
+    time: number;
+}
+
+/**
+ * Picks where players come back into the game and times their respawns. Candidate points
+ * are spread along the floor of each eligible spawn zone; points with someone already
+ * standing on them are only used when there's nothing else. The rest are scored by how far
+ * they are from living enemies and recent deaths and the best one wins, with ties broken
+ * at random so spawns don't become predictable.
+ */
+export class SpawnSystem {
+    private random: Random;
+    private time: number = 0;
+    private recentDeaths: IRecentDeath[] = [];
+    // Time left before each dead player comes back
+    private respawnTimers = new Map<string, number>();
+
+    constructor(random: Random) {
+        this.random = random;
+    }
+
+    // Advance the clock and respawn timers; returns the players whose timer ran out
+    update(deltaTime: number): string[] {
+        this.time += deltaTime;
+        this.recentDeaths = this.recentDeaths.filter(death => this.time - death.time < GAME.SPAWN.DEATH_MEMORY);
+
+        const ready: string[] = [];
+        this.respawnTimers.forEach((timeLeft, playerId) => {
+            const remaining = timeLeft - deltaTime;
+            if (remaining <= 0) {
+                ready.push(playerId);
+                this.respawnTimers.delete(playerId);
+            } else {
+                this.respawnTimers.set(playerId, remaining);
+            }
+        });
+        return ready;
+    }
+
+    recordDeath(position: { x: number; y: number }) {
+        this.recentDeaths.push({ position: { x: position.x, y: position.y }, time: this.time });
+    }
+
+    // Forget where people died (e.g. at the start of a new round)
+    clearDeaths() {
+        this.recentDeaths = [];
+    }
+
+    scheduleRespawn(playerId: string, delay: number) {
+        this.respawnTimers.set(playerId, delay);
+    }
+
+    cancelRespawn(playerId: string) {
+        this.respawnTimers.delete(playerId);
+    }
+
+    // Seconds until the player respawns, null when no respawn is scheduled
+    getRespawnTimeLeft(playerId: string): number | null {
+        return this.respawnTimers.get(playerId) ?? null;
+    }
+
+    // Best place for a player on `team` to spawn, in the zones belonging to `zoneTeam`
+    // (normally the same team - they differ once sides have switched). Null when there's
+    // no zone to spawn in.
+    selectSpawnPoint(
+        zones: readonly ISpawnZone[],
+        zoneTeam: TeamId | null,
+        team: TeamId | null,
+        players: readonly Player[],
+        playerId?: string
+    ): THREE.Vector3 | null {
+        let eligible = zones.filter(zone => zone.team === zoneTeam);
+        if (eligible.length === 0) eligible = zones.filter(zone => zone.team === null);
+        if (eligible.length === 0 && zoneTeam === null) eligible = [...zones];
+        if (eligible.length === 0) return null;
+
+        const others = players.filter(player => player.id !== playerId && player.isAlive());
+        const enemies = others.filter(player => team === null || player.team !== team);
+        const deaths = this.recentDeaths.map(death => death.position);
+
+        const { ENEMY_SAFE_DISTANCE, DEATH_SAFE_DISTANCE, PERSONAL_SPACE } = GAME.SPAWN;
+        const candidates = eligible.flatMap(getCandidates);
+        const othersFeet = others.map(getFeet);
+        const free = candidates.filter(candidate => nearestDistance(candidate, othersFeet) >= PERSONAL_SPACE);
+
+        let bestScore = -Infinity;
+        let best: { x: number; y: number }[] = [];
+        for (const candidate of free.length > 0 ? free : candidates) {
+            const score =
+                Math.min(nearestDistance(candidate, enemies.map(getFeet)), ENEMY_SAFE_DISTANCE) +
+                Math.min(nearestDistance(candidate, deaths), DEATH_SAFE_DISTANCE);
+
+            if (score > bestScore + SCORE_EPSILON) {
+                bestScore = score;
+                best = [candidate];
+            } else if (score >= bestScore - SCORE_EPSILON) {
+                best.push(candidate);
+            }
+        }
+
+        const choice = best[Math.floor(this.random.next() * best.length)];
+        return new THREE.Vector3(choice.x, choice.y, 0);
+    }
+}
+
+// Scores closer than this count as equally good
+const SCORE_EPSILON = 0.01;
+
+// Feet positions spread along the bottom of the zone, keeping the whole body inside it
+function getCandidates(zone: ISpawnZone): { x: number; y: number }[] {
+    const halfWidth = PHYSICS.BODY.WIDTH / 2;
+    const minX = zone.min.x + halfWidth;
+    const maxX = zone.max.x - halfWidth;
+    if (maxX <= minX) return [{ x: (zone.min.x + zone.max.x) / 2, y: zone.min.y }];
+
+    const count = Math.floor((maxX - minX) / GAME.SPAWN.CANDIDATE_SPACING) + 1;
+    const spacing = count > 1 ? (maxX - minX) / (count - 1) : 0;
+    return Array.from({ length: count }, (_, index) => ({ x: minX + index * spacing, y: zone.min.y }));
+}
+
+function getFeet(player: Player): { x: number; y: number } {
+    const { position } = player.body.getState();
+    return { x: position.x, y: position.y };
+}
+
+function nearestDistance(point: { x: number; y: number }, others: { x: number; y: number }[]): number {
+    let nearest = Infinity;
+    for (const other of others) {
+        nearest = Math.min(nearest, Math.hypot(other.x - point.x, other.y - point.y));
+    }
+    return nearest;
+}
@@ -0,0 +1,23 @@
+// The two factions players fight for
+export type TeamId = 'syntax' | 'veil';
+
+export interface ITeamDefinition {
+    id: TeamId;
+    name: string;
+    color: string;            // Tints characters, projectiles and the HUD
+}
+
+export const TEAMS: Record<TeamId, ITeamDefinition> = {
+    syntax: { id: 'syntax', name: 'Syntax', color: '#3d8bff' },
+    veil: { id: 'veil', name: 'Veil', color: '#ff3d4d' }
+};
+
+export const TEAM_IDS: readonly TeamId[] = ['syntax', 'veil'];
+
+export function getOpposingTeam(team: TeamId): TeamId {
+    return team === 'syntax' ? 'veil' : 'syntax';
+}
+
+export function isTeamId(value: string | null | undefined): value is TeamId {
+    return value === 'syntax' || value === 'veil';
+}
@@ -0,0 +1,159 @@
+import { IWeaponConfig, IWeaponDefinition, DEFAULT_WEAPON_ID, getWeaponDefinition } from '../../weapons';
+import { GAME } from './GameConstants';
+
+// Discrete things that happened to the weapon during an update
+export type WeaponEvent =
+    | { type: 'reloadStart'; duration: number }
+    | { type: 'reloadComplete'; ammo: number; reserve: number }
+    | { type: 'dryFire' }
+    | { type: 'overheat' };
+
+// Cooldown, recoil, ammo, reload and beam heat state for a weapon, advanced in simulation time
+export class Weapon {
+    readonly definition: IWeaponDefinition;
+    // Copy of the definition's config, so tuning one weapon doesn't change the registry
+    config: IWeaponConfig;
+    // Rounds in the magazine, and spare rounds to reload from
+    ammo: number;
+    reserve: number;
+    // Beam heat (0-1), and whether it maxed out and is waiting to cool back down to 0
+    heat: number = 0;
+    overheated: boolean = false;
+    private cooldown: number = 0;
+    private recoil: number = 0;
+    // Time left on the current reload (0 when not reloading)
+    private reloadTime: number = 0;
+    // Beam was on during the last step, so it isn't cooling
+    private beamFiring: boolean = false;
+    // Events raised since the last update
+    private events: WeaponEvent[] = [];
+
+    constructor(definition: IWeaponDefinition = getWeaponDefinition(DEFAULT_WEAPON_ID)) {
+        this.definition = definition;
+        this.config = {
+            ...definition.config,
+            projectile: definition.config.projectile && { ...definition.config.projectile }
+        };
+        this.ammo = this.config.magazineSize;
+        this.reserve = this.config.reserveAmmo;
+    }
+
+    update(deltaTime: number) {
+        this.events = [];
+        this.cooldown = Math.max(0, this.cooldown - deltaTime);
+        // Gradually recover from recoil
+        if (this.recoil > 0) {
+            this.recoil = Math.max(0, this.recoil - this.config.recoilRecovery * deltaTime * 60);
+        }
+
+        // Finish a reload - top the magazine up from the reserve
+        if (this.reloadTime > 0) {
+            this.reloadTime = Math.max(0, this.reloadTime - deltaTime);
+            if (this.reloadTime === 0) {
+                const rounds = Math.min(this.config.magazineSize - this.ammo, this.reserve);
+                this.ammo += rounds;
+                this.reserve -= rounds;
+                this.events.push({ type: 'reloadComplete', ammo: this.ammo, reserve: this.reserve });
+            }
+        }
+
+        // Beams cool off whenever they weren't fired last step
+        if (this.config.beam && !this.beamFiring) {
+            this.heat = Math.max(0, this.heat - this.config.beam.coolingPerSecond * deltaTime);
+            if (this.heat === 0) {
+                this.overheated = false;
+            }
+        }
+        this.beamFiring = false;
+    }
+
+    canFire(): boolean {
+        if (this.config.beam) return !this.overheated;
+        return this.cooldown <= 0 && this.ammo > 0 && !this.isReloading();
+    }
+
+    // Out of ammo - or, for a beam, overheated - so pulling the trigger just clicks
+    isEmpty(): boolean {
+        return this.config.beam ? this.overheated : this.ammo === 0;
+    }
+
+    // Start the cooldown, use a round and kick up recoil for a shot that was just fired.
+    // Firing the last round starts a reload straight away. Beams heat up instead.
+    fire(deltaTime: number) {
+        if (this.config.beam) {
+            this.beamFiring = true;
+            this.heat = Math.min(1, this.heat + this.config.beam.heatPerSecond * deltaTime);
+            if (this.heat >= 1) {
+                this.overheated = true;
+                this.events.push({ type: 'overheat' });
+            }
+            return;
+        }
+
+        this.cooldown = 1 / this.config.fireRate;
+        this.recoil = Math.min(this.config.maxRecoil, this.recoil + this.config.recoil);
+        this.ammo = Math.max(0, this.ammo - 1);
+        if (this.ammo === 0) {
+            this.startReload();
+        }
+    }
+
+    // Pulling the trigger on an empty magazine clicks, and reloads if there's anything to load
+    dryFire() {
+        if (this.isReloading()) return;
+        this.events.push({ type: 'dryFire' });
+        this.startReload();
+    }
+
+    // Begin a reload; returns false if the magazine is full, there's no reserve, or we're already reloading
+    startReload(): boolean {
+        if (this.isReloading() || this.ammo >= this.config.magazineSize || this.reserve <= 0) {
+            return false;
+        }
+        this.reloadTime = this.config.reloadTime;
+        this.events.push({ type: 'reloadStart', duration: this.config.reloadTime });
+        return true;
+    }
+
+    // Abandon a reload in progress (e.g. when the weapon is holstered) without loading anything
+    cancelReload() {
+        this.reloadTime = 0;
+    }
+
+    // Full magazine and reserve, cold and ready to fire (e.g. on respawn). Keeps any tuning.
+    refill() {
+        this.ammo = this.config.magazineSize;
+        this.reserve = this.config.reserveAmmo;
+        this.heat = 0;
+        this.overheated = false;
+        this.cooldown = 0;
+        this.recoil = 0;
+        this.reloadTime = 0;
+        this.beamFiring = false;
+        this.events = [];
+    }
+
+    isReloading(): boolean {
+        return this.reloadTime > 0;
+    }
+
+    // How far through the current reload we are (0-1), 0 when not reloading
+    getReloadProgress(): number {
+        if (!this.isReloading() || this.config.reloadTime <= 0) return 0;
+        return 1 - this.reloadTime / this.config.reloadTime;
+    }
+
+    // Events raised since the last update (reloads, dry fire, overheating)
+    getEvents(): readonly WeaponEvent[] {
+        return this.events;
+    }
+
+    // Maximum random aim deviation - the weapon's own spread plus accumulated recoil
+    getSpread(): number {
+        return this.config.spread + this.recoil * GAME.WEAPON.SPREAD_PER_RECOIL;
+    }
+
+    configure(config: Partial<IWeaponConfig>) {
+        this.config = { ...this.config, ...config };
+    }
+}
@@ -0,0 +1,19 @@
+// Headless game simulation - no React, no renderer.
+// Step it with GameSimulation.update(delta) from a frame loop, or call step()
+// directly from tests, bots and tools.
+
+export * from './core/GameConstants';
+export * from './core/GameSimulation';
+export * from './core/GameWorld';
+export * from './core/Health';
+export * from './core/MatchController';
+export * from './core/Player';
+export * from './core/PlayerInput';
+export * from './core/Random';
+export * from './core/SimulationEvents';
+export * from './core/SpawnSystem';
+export * from './core/Team';
+export * from './core/Weapon';
+export * from './bots/BotController';
+export * from './bots/NavGraph';
+export * from './bots/ReachabilityPlanner';
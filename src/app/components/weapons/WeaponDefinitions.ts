@@ -0,0 +1,291 @@
+// Weapon definitions - everything that makes one gun different from another.
+// The simulation reads `config`; the character view reads `view`.
+
+import { IExplosiveConfig, IHomingConfig } from '../physics';
+
+export type WeaponId = 'pistol' | 'rifle' | 'shotgun' | 'launcher' | 'beam' | 'smart';
+
+// How a weapon behaves in the simulation
+export interface IWeaponConfig {
+    isAutomatic: boolean;
+    fireRate: number;         // Shots per second
+    damage: number;           // Damage per projectile (per second for beams) before hit location and armor
+    spread: number;           // Base random aim deviation, before recoil
+    recoil: number;           // Recoil added per shot
+    maxRecoil: number;
+    recoilRecovery: number;   // Recoil recovered per 1/60th of a second
+    recoilPush: number;       // Shove opposite the aim direction per shot (per second for beams), as a change in velocity
+    magazineSize: number;     // Rounds per magazine
+    reserveAmmo: number;      // Spare rounds carried on spawn
+    reloadTime: number;       // Seconds to swap in a fresh magazine
+    // What the weapon fires - projectiles, or a continuous beam
+    projectile?: {
+        speed: number;
+        lifetime: number;
+        size: number;
+        gravityScale: number; // Multiplier on PHYSICS.GRAVITY (0 = flies straight)
+        // Damage scales down linearly from `start` to `end` metres travelled, to `minMultiplier`
+        damageFalloff?: { start: number; end: number; minMultiplier: number };
+        explosive?: IExplosiveConfig; // Area damage and knockback when it goes off
+        homing?: IHomingConfig;       // Curves towards enemies in front of it
+    };
+    pellets: {
+        count: number;        // Projectiles per shot
+        coneAngle: number;    // Full width of the spread cone (radians)
+        pattern: 'random' | 'fixed'; // Scattered randomly in the cone, or fanned evenly across it
+    };
+    // Beams hit instantly along a ray every step the trigger is held, and run on heat
+    // instead of ammo - at full heat the beam shuts off until it has cooled right down
+    beam?: {
+        range: number;
+        heatPerSecond: number;    // Heat (0-1) built up per second of firing
+        coolingPerSecond: number; // Heat lost per second while not firing
+    };
+}
+
+// Where the weapon sits relative to the right hand bone
+export interface IHoldOffset {
+    position: { x: number; y: number; z: number };
+    rotation: { x: number; y: number; z: number };
+}
+
+// How a weapon looks and sounds
+export interface IWeaponView {
+    modelPath: string;
+    modelScale: number;
+    muzzleNode: string;       // Object in the model the muzzle flash attaches to
+    ejectorNode: string;      // Object in the model shell casings are ejected from
+    fireSound: string;
+    reloadSound?: string;     // Left out for a silent reload
+    dryFireSound?: string;    // Click when pulling the trigger on an empty gun, if any
+    muzzleFlashDuration: number; // ms
+    holdOffsets: Record<string, IHoldOffset>; // Per animation, tuned by eye
+    defaultHoldOffset: IHoldOffset;           // For animations without their own offset
+}
+
+export interface IWeaponDefinition {
+    id: WeaponId;
+    name: string;
+    config: IWeaponConfig;
+    view: IWeaponView;
+}
+
+// Single projectile straight down the barrel
+const SINGLE_SHOT = { count: 1, coneAngle: 0, pattern: 'fixed' } as const;
+
+// Only the rifle has its own model and sound so far - the others borrow them
+const RIFLE_VIEW: IWeaponView = {
+    modelPath: '/models/weapon/rifle2.glb',
+    modelScale: 0.7,
+    muzzleNode: 'gun_muzzle',
+    ejectorNode: 'ejector',
+    fireSound: '/sound/rifle_fire.mp3',
+    muzzleFlashDuration: 50,
+    holdOffsets: {
+        RifleRun: {
+            position: { x: 0.06, y: 0.05, z: 0.35 },
+            rotation: { x: Math.PI / 8, y: Math.PI / 1 + 1.8, z: -Math.PI / 2 }
+        },
+        RifleIdle: {
+            position: { x: 0.08, y: 0.0, z: 0.15 },
+            rotation: {
+                x: -5 * (Math.PI / 180),
+                y: -90 * (Math.PI / 180),
+                z: -100 * (Math.PI / 180)
+            }
+        },
+        'Backwards Rifle Run': {
+            position: { x: 0.07, y: 0.03, z: 0.3 },
+            rotation: {
+                x: Math.PI / 10,
+                y: Math.PI / 1 + 1,
+                z: -Math.PI / 2
+            }
+        }
+    },
+    defaultHoldOffset: {
+        position: { x: 0.06, y: 0.02, z: 0.35 },
+        rotation: { x: Math.PI / 16, y: Math.PI / 1 + 1.8, z: -Math.PI / 2 }
+    }
+};
+
+export const WEAPONS: Record<WeaponId, IWeaponDefinition> = {
+    // Low damage, accurate, quick to fire
+    pistol: {
+        id: 'pistol',
+        name: 'Pistol',
+        config: {
+            isAutomatic: false,
+            fireRate: 6,
+            damage: 15,
+            spread: 0,
+            recoil: 0.015,
+            maxRecoil: 0.06,
+            recoilRecovery: 0.015,
+            recoilPush: 0.3,
+            magazineSize: 12,
+            reserveAmmo: 48,
+            reloadTime: 1.0,
+            projectile: {
+                speed: 60,
+                lifetime: 2.0,
+                size: 0.12,
+                gravityScale: 0.3
+            },
+            pellets: SINGLE_SHOT
+        },
+        view: { ...RIFLE_VIEW, modelScale: 0.5, muzzleFlashDuration: 40 }
+    },
+    // The rifle the character has always carried
+    rifle: {
+        id: 'rifle',
+        name: 'Rifle',
+        config: {
+            isAutomatic: true,
+            fireRate: 5,
+            damage: 20,
+            spread: 0,
+            recoil: 0.02,
+            maxRecoil: 0.1,
+            recoilRecovery: 0.01,
+            recoilPush: 0.8,
+            magazineSize: 30,
+            reserveAmmo: 120,
+            reloadTime: 2.0,
+            projectile: {
+                speed: 80,            // Fast bullets
+                lifetime: 3.0,        // 3 second lifetime
+                size: 0.15,
+                gravityScale: 1.0     // Full gravity effect for nice arc
+            },
+            pellets: SINGLE_SHOT
+        },
+        view: RIFLE_VIEW
+    },
+    // Hits hard up close, slow to fire
+    shotgun: {
+        id: 'shotgun',
+        name: 'Shotgun',
+        config: {
+            isAutomatic: false,
+            fireRate: 1.2,
+            damage: 12,               // Per pellet
+            spread: 0.02,
+            recoil: 0.08,
+            maxRecoil: 0.16,
+            recoilRecovery: 0.02,
+            recoilPush: 7,            // Enough to knock you back mid-air
+            magazineSize: 6,
+            reserveAmmo: 24,
+            reloadTime: 2.5,
+            projectile: {
+                speed: 55,
+                lifetime: 0.8,
+                size: 0.2,
+                gravityScale: 0.5,
+                damageFalloff: { start: 4, end: 16, minMultiplier: 0.2 }
+            },
+            pellets: {
+                count: 8,
+                coneAngle: 0.35,
+                pattern: 'random'
+            }
+        },
+        view: { ...RIFLE_VIEW, modelScale: 0.8, muzzleFlashDuration: 80 }
+    },
+    // Lobs bouncing grenades that blow up after a short fuse, or on hitting someone
+    launcher: {
+        id: 'launcher',
+        name: 'Grenade Launcher',
+        config: {
+            isAutomatic: false,
+            fireRate: 0.8,
+            damage: 0,                // All of its damage comes from the blast
+            spread: 0,
+            recoil: 0.1,
+            maxRecoil: 0.2,
+            recoilRecovery: 0.02,
+            recoilPush: 5,
+            magazineSize: 4,
+            reserveAmmo: 12,
+            reloadTime: 3.0,
+            projectile: {
+                speed: 22,
+                lifetime: 2.0,        // Fuse
+                size: 0.35,
+                gravityScale: 1.0,
+                explosive: {
+                    radius: 5,
+                    damage: 90,
+                    knockback: 18,
+                    bounciness: 0.45
+                }
+            },
+            pellets: SINGLE_SHOT
+        },
+        view: { ...RIFLE_VIEW, modelScale: 0.9, muzzleFlashDuration: 90 }
+    },
+    // Cipher's continuous energy beam - limited by heat rather than ammo
+    beam: {
+        id: 'beam',
+        name: 'Energy Beam',
+        config: {
+            isAutomatic: true,
+            fireRate: 60,             // Unused - the beam fires every step while held
+            damage: 60,               // Per second on target
+            spread: 0,
+            recoil: 0,
+            maxRecoil: 0,
+            recoilRecovery: 0,
+            recoilPush: 2,
+            magazineSize: 0,
+            reserveAmmo: 0,
+            reloadTime: 0,
+            pellets: SINGLE_SHOT,
+            beam: {
+                range: 30,
+                heatPerSecond: 0.4,   // 2.5 seconds of continuous fire
+                coolingPerSecond: 0.5
+            }
+        },
+        view: { ...RIFLE_VIEW, muzzleFlashDuration: 0 }
+    },
+    // Binary's smart-targeting rifle - slow rounds that curve slightly towards enemies
+    smart: {
+        id: 'smart',
+        name: 'Smart Rifle',
+        config: {
+            isAutomatic: true,
+            fireRate: 4,
+            damage: 14,
+            spread: 0.01,
+            recoil: 0.015,
+            maxRecoil: 0.06,
+            recoilRecovery: 0.015,
+            recoilPush: 0.5,
+            magazineSize: 24,
+            reserveAmmo: 96,
+            reloadTime: 1.8,
+            projectile: {
+                speed: 35,
+                lifetime: 2.5,
+                size: 0.14,
+                gravityScale: 0,      // Flies straight unless it's homing
+                homing: {
+                    coneAngle: 1.2,   // About 70 degrees
+                    range: 20,
+                    turnRate: 3,
+                    lockDelay: 0.1
+                }
+            },
+            pellets: SINGLE_SHOT
+        },
+        view: { ...RIFLE_VIEW, modelScale: 0.65, muzzleFlashDuration: 40 }
+    }
+};
+
+export const DEFAULT_WEAPON_ID: WeaponId = 'rifle';
+
+export function getWeaponDefinition(id: WeaponId): IWeaponDefinition {
+    return WEAPONS[id];
+}
@@ -0,0 +1,2 @@
+// Weapon data shared by the simulation and the character views
+export * from './WeaponDefinitions';
@@ -1,7 +1,20 @@
 'use client';
 
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 import GameDevEnvironment from '../components/gamedev/GameDevEnvironment';
+import { isTeamId } from '../components/simulation';
+
+// Fights for the team passed by the character select screen, if any
+function GameDevWithTeam() {
+  const team = useSearchParams().get('team');
+  return <GameDevEnvironment team={isTeamId(team) ? team : undefined} />;
+}
 
 export default function GameDevPage() {
-  return <GameDevEnvironment />;
-} 
\ No newline at end of file
+  return (
+    <Suspense>
+      <GameDevWithTeam />
+    </Suspense>
+  );
+}
@@ -0,0 +1,71 @@
+// Bots on the dev level: the baked nav graph still matches the level and physics, every
+// move in it still works, and bots left to it find each other and fight
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { DEV_LEVEL } from '../src/app/components/level/LevelData';
+import { GameSimulation, IDeathEvent, NavGraph, ReachabilityPlanner } from '../src/app/components/simulation';
+import { stepFor } from './helpers';
+
+test('the baked dev level graph is up to date', () => {
+  assert.ok(DEV_LEVEL.navGraph, 'no graph baked');
+  assert.equal(DEV_LEVEL.navGraph.hash, NavGraph.getHash(DEV_LEVEL.colliders), 'run npm run nav:generate');
+});
+
+test('every baked move between surfaces still lands where it should', () => {
+  const graph = NavGraph.fromData(DEV_LEVEL.navGraph!);
+  const planner = new ReachabilityPlanner(DEV_LEVEL.colliders);
+  const broken = graph.links.filter(link => {
+    if (link.type === 'walk') return false;
+    const from = graph.nodes[link.from];
+    const to = graph.nodes[link.to];
+    const { minX, maxX } = graph.surfaces[to.surface];
+    return !planner.replay(from, { x: to.x, y: to.y, minX, maxX }, link.inputs);
+  });
+
+  assert.deepEqual(broken.map(link => `${link.type} ${link.from} -> ${link.to}`), []);
+});
+
+function createSimulation(seed: number): GameSimulation {
+  return new GameSimulation({
+    colliders: DEV_LEVEL.colliders,
+    spawnZones: DEV_LEVEL.spawnZones,
+    navGraph: DEV_LEVEL.navGraph,
+    seed
+  });
+}
+
+test('a bot on its own roams the level without getting stuck or killed', () => {
+  const simulation = createSimulation(2);
+  const bot = simulation.addBot('bot', undefined, 'syntax');
+  const graph = simulation.world.getNavGraph();
+  const visited = new Set<number>();
+  let died = false;
+  simulation.on('death', () => { died = true; });
+
+  stepFor(simulation, 60, () => {
+    const state = bot.body.getState();
+    const surface = state.grounded ? graph.findSurface(state.position.x, state.position.y) : null;
+    if (surface) visited.add(surface.id);
+    return false;
+  });
+
+  assert.ok(visited.size >= 4, `only got onto surfaces ${[...visited].join(', ')}`);
+  assert.equal(died, false);
+});
+
+test('bots on opposing teams hunt each other down', () => {
+  const simulation = createSimulation(3);
+  simulation.addBot('syntax-bot', undefined, 'syntax');
+  simulation.addBot('veil-bot', undefined, 'veil');
+  const deaths: IDeathEvent[] = [];
+  simulation.on('death', event => deaths.push(event));
+
+  stepFor(simulation, 60, () => deaths.length >= 2);
+
+  assert.ok(deaths.length > 0, 'nobody died in a minute');
+  deaths.forEach(death => {
+    assert.notEqual(death.killerId, death.playerId);
+    assert.ok(death.killerId?.endsWith('-bot'), `killed by ${death.killerId}`);
+  });
+});
@@ -0,0 +1,206 @@
+// Shooting, blasts, falls, dying and coming back, stepped through the whole simulation
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as THREE from 'three';
+import { createBoxCollider, PHYSICS } from '../src/app/components/physics';
+import { GAME, GameSimulation, IDamageEvent, IDeathEvent } from '../src/app/components/simulation';
+import { getWeaponDefinition } from '../src/app/components/weapons/WeaponDefinitions';
+import { createFloor, stepFor } from './helpers';
+
+const LAUNCHER_SLOT = GAME.PLAYER.DEFAULT_LOADOUT.indexOf('launcher');
+const GRENADE = getWeaponDefinition('launcher').config.projectile!.explosive!;
+
+function recordDamage(simulation: GameSimulation): IDamageEvent[] {
+  const damage: IDamageEvent[] = [];
+  simulation.on('damage', event => damage.push(event));
+  return damage;
+}
+
+test('rifle shots hit the player they are aimed at', () => {
+  const simulation = new GameSimulation({ colliders: [createFloor()], respawnTime: null });
+  simulation.addPlayer('shooter', new THREE.Vector3(0, 0, 0));
+  const target = simulation.addPlayer('target', new THREE.Vector3(8, 0, 0));
+  const damage = recordDamage(simulation);
+  stepFor(simulation, 0.1);
+
+  simulation.setInput('shooter', { fire: true, aim: { x: 8, y: 2 } });
+  assert.ok(stepFor(simulation, 1, () => damage.length > 0), 'no shot landed');
+  simulation.setInput('shooter', { fire: false });
+
+  assert.equal(damage[0].playerId, 'target');
+  assert.equal(damage[0].damage.sourceId, 'shooter');
+  assert.ok(target.health.health < GAME.HEALTH.MAX_HEALTH);
+});
+
+test('level geometry stops shots, however thin', () => {
+  const thinWall = createBoxCollider({ x: 4, y: 3 }, { x: 0.1, y: 6 }, 'thin');
+  const simulation = new GameSimulation({ colliders: [createFloor(), thinWall], respawnTime: null });
+  simulation.addPlayer('shooter', new THREE.Vector3(0, 0, 0));
+  simulation.addPlayer('target', new THREE.Vector3(8, 0, 0));
+  const damage = recordDamage(simulation);
+  let impacts = 0;
+  simulation.on('impact', () => impacts++);
+  stepFor(simulation, 0.1);
+
+  simulation.setInput('shooter', { fire: true, aim: { x: 8, y: 2 } });
+  stepFor(simulation, 1);
+
+  assert.ok(impacts > 0, 'shots never reached the wall');
+  assert.deepEqual(damage, []);
+});
+
+test('shots and blasts from below go up through one-way platforms, but not down through them', () => {
+  // See-through platform with its top at y = 4.5, only solid from above
+  const platform = { ...createBoxCollider({ x: 0, y: 4.35 }, { x: 4, y: 0.3 }, 'platform'), oneWay: true };
+  const simulation = new GameSimulation({ colliders: [createFloor(), platform], respawnTime: null });
+  simulation.addPlayer('shooter', new THREE.Vector3(-6, 0, 0));
+  simulation.addPlayer('target', new THREE.Vector3(1, 4.5, 0));
+  const damage = recordDamage(simulation);
+  stepFor(simulation, 0.1);
+
+  // Up at the target standing on the platform, through its edge
+  simulation.setInput('shooter', { fire: true, aim: { x: 1, y: 6 } });
+  assert.ok(stepFor(simulation, 1, () => damage.length > 0), 'no shot got through');
+  simulation.setInput('shooter', { fire: false });
+  assert.equal(damage[0].playerId, 'target');
+
+  // A blast underneath reaches them too
+  damage.length = 0;
+  simulation.explode(new THREE.Vector3(1, 3, 0), GRENADE);
+  assert.ok(damage.some(event => event.playerId === 'target'));
+
+  // Rays coming down stop on the top, like anything else landing on it
+  const hit = simulation.raycast(new THREE.Vector3(-1.5, 8, 0), new THREE.Vector3(-1.5, 1, 0));
+  assert.equal(hit?.target.type, 'world');
+  assert.equal(hit?.point.y, 4.5);
+});
+
+test('grenades blow up on the character they hit', () => {
+  const simulation = new GameSimulation({ colliders: [createFloor()], respawnTime: null });
+  simulation.addPlayer('shooter', new THREE.Vector3(0, 0, 0));
+  simulation.addPlayer('target', new THREE.Vector3(6, 0, 0));
+  const damage = recordDamage(simulation);
+  const explosions: THREE.Vector3[] = [];
+  simulation.on('explosion', event => explosions.push(event.position));
+
+  simulation.setInput('shooter', { weaponSlot: LAUNCHER_SLOT });
+  stepFor(simulation, 1);
+  assert.equal(simulation.getPlayer('shooter')!.weapon.definition.id, 'launcher');
+
+  // Straight at the target's chest - well inside the fuse
+  simulation.setInput('shooter', { fire: true, aim: { x: 6, y: 3 } });
+  const start = simulation.getTime();
+  assert.ok(stepFor(simulation, 1, () => explosions.length > 0), 'the grenade never went off');
+  assert.ok(simulation.getTime() - start < 0.5, 'went off on the fuse rather than on impact');
+
+  assert.ok(Math.abs(explosions[0].x - 6) < 1, `went off at ${explosions[0].x}`);
+  assert.ok(damage.some(event => event.playerId === 'target' && event.damage.type === 'explosion'));
+});
+
+test('blasts hurt less the further away, and not at all behind a wall', () => {
+  const wall = createBoxCollider({ x: -3, y: 4 }, { x: 1, y: 8 }, 'wall');
+  const simulation = new GameSimulation({ colliders: [createFloor(), wall], respawnTime: null });
+  simulation.addPlayer('near', new THREE.Vector3(1.5, 0, 0));
+  simulation.addPlayer('far', new THREE.Vector3(3.5, 0, 0));
+  simulation.addPlayer('sheltered', new THREE.Vector3(-4.5, 0, 0));
+  const damage = recordDamage(simulation);
+  stepFor(simulation, 0.1);
+
+  simulation.explode(new THREE.Vector3(0, 0.5, 0), GRENADE);
+  const dealt = (playerId: string) => damage.find(event => event.playerId === playerId)?.damage.amount ?? 0;
+
+  assert.ok(dealt('near') > dealt('far'), `near ${dealt('near')}, far ${dealt('far')}`);
+  assert.ok(dealt('far') > 0);
+  assert.equal(dealt('sheltered'), 0);
+  assert.ok(simulation.getPlayer('near')!.body.getState().velocity.x > 0, 'not pushed away');
+  assert.equal(simulation.getPlayer('sheltered')!.body.getState().velocity.x, 0);
+});
+
+test('blasts leave teammates alone without friendly fire, but not the thrower', () => {
+  const simulation = new GameSimulation({ colliders: [createFloor()], friendlyFire: false, respawnTime: null });
+  const thrower = simulation.addPlayer('thrower', new THREE.Vector3(-1.5, 0, 0), 'syntax');
+  const teammate = simulation.addPlayer('teammate', new THREE.Vector3(1.5, 0, 0), 'syntax');
+  const enemy = simulation.addPlayer('enemy', new THREE.Vector3(0, 0, 0), 'veil');
+  stepFor(simulation, 0.1);
+
+  simulation.explode(new THREE.Vector3(0, 0.5, 0), GRENADE, 'thrower');
+
+  assert.equal(teammate.health.health, GAME.HEALTH.MAX_HEALTH);
+  assert.equal(teammate.body.getState().velocity.x, 0);
+  assert.ok(thrower.health.health < GAME.HEALTH.MAX_HEALTH);
+  assert.ok(enemy.health.health < thrower.health.health, 'the thrower took full damage');
+});
+
+test('jumping off the high ledge is harmless, but a long drop lands hard and hurts', () => {
+  // Same height as ledge-high in the dev level
+  const ledge = createBoxCollider({ x: 0, y: 5.25 }, { x: 6, y: 0.5 }, 'ledge');
+  const simulation = new GameSimulation({ colliders: [createFloor(), ledge], respawnTime: null });
+  const jumper = simulation.addPlayer('jumper', new THREE.Vector3(2, 5.5, 0));
+  const dropper = simulation.addPlayer('dropper', new THREE.Vector3(-20, 12, 0));
+  stepFor(simulation, 0.1);
+  const damage = recordDamage(simulation);
+  const landings = new Map<string, boolean>();
+  simulation.on('land', event => landings.set(event.playerId, event.hard));
+
+  // Run off the edge with the highest jump there is
+  simulation.setInput('jumper', { moveX: 1, jump: true });
+  stepFor(simulation, 3, () => landings.size === 2);
+
+  assert.equal(landings.get('jumper'), false);
+  assert.equal(jumper.body.isStaggered(), false);
+  assert.equal(landings.get('dropper'), true);
+  assert.deepEqual(damage.map(event => [event.playerId, event.damage.type]), [['dropper', 'fall']]);
+  assert.ok(damage[0].damage.amount > PHYSICS.FALL_DAMAGE.MIN_DAMAGE);
+  assert.ok(dropper.health.health < GAME.HEALTH.MAX_HEALTH);
+});
+
+test('landing after a jump pad throw does no fall damage', () => {
+  const launch = PHYSICS.FALL_DAMAGE.MIN_SPEED + 3;
+  const pad = createBoxCollider({ x: 0, y: -0.25 }, { x: 2, y: 0.5 }, 'pad', 'metal', { launch });
+  const simulation = new GameSimulation({ colliders: [pad], respawnTime: null });
+  simulation.addPlayer('jumper', new THREE.Vector3(-3, 0, 0));
+  const damage = recordDamage(simulation);
+  let landed = false;
+  simulation.on('land', () => { landed = true; });
+  stepFor(simulation, 0.1);
+  landed = false;
+
+  // Walk onto the pad, and let the throw carry off it
+  simulation.setInput('jumper', { moveX: 1 });
+  assert.ok(stepFor(simulation, 5, () => landed), 'never came down');
+  assert.deepEqual(damage, []);
+});
+
+test('the dead respawn after the respawn time, protected for a moment', () => {
+  const simulation = new GameSimulation({ colliders: [createFloor()], respawnTime: GAME.SPAWN.RESPAWN_TIME });
+  simulation.addPlayer('killer', new THREE.Vector3(0, 0, 0));
+  const victim = simulation.addPlayer('victim', new THREE.Vector3(6, 0, 0));
+  const deaths: IDeathEvent[] = [];
+  simulation.on('death', event => deaths.push(event));
+  let spawned = false;
+  simulation.on('spawn', event => { spawned ||= event.playerId === 'victim'; });
+  stepFor(simulation, 0.1);
+
+  simulation.applyDamage('victim', { amount: 1000, type: 'projectile', sourceId: 'killer' });
+  assert.equal(deaths.length, 1);
+  assert.equal(deaths[0].playerId, 'victim');
+  assert.equal(deaths[0].killerId, 'killer');
+  assert.equal(victim.isAlive(), false);
+
+  // Dead bodies can't be hurt again
+  assert.equal(simulation.applyDamage('victim', { amount: 10, type: 'projectile', sourceId: 'killer' }), null);
+
+  stepFor(simulation, GAME.SPAWN.RESPAWN_TIME - 0.2);
+  assert.equal(spawned, false, 'came back early');
+  assert.ok(stepFor(simulation, 0.4, () => spawned), 'never came back');
+
+  assert.ok(victim.isAlive());
+  assert.equal(victim.health.health, GAME.HEALTH.MAX_HEALTH);
+  assert.ok(victim.isSpawnProtected());
+  assert.equal(simulation.applyDamage('victim', { amount: 10, type: 'projectile', sourceId: 'killer' }), null);
+
+  stepFor(simulation, GAME.SPAWN.PROTECTION_TIME + 0.1);
+  assert.equal(victim.isSpawnProtected(), false);
+  assert.notEqual(simulation.applyDamage('victim', { amount: 10, type: 'projectile', sourceId: 'killer' }), null);
+});
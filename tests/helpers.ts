@@ -0,0 +1,34 @@
+// Shared setup for the simulation tests: a flat floor to stand on and ways of running the
+// fixed timestep for a while
+
+import * as THREE from 'three';
+import { createBoxCollider, ICollider, PhysicsBody } from '../src/app/components/physics';
+import { GameSimulation } from '../src/app/components/simulation';
+
+export const STEP = 1 / 60;
+
+// Top surface at y = 0, wide enough to never walk off
+export function createFloor(width: number = 200): ICollider {
+  return createBoxCollider({ x: 0, y: -0.5 }, { x: width, y: 1 }, 'floor');
+}
+
+export function toFrames(seconds: number): number {
+  return Math.round(seconds / STEP);
+}
+
+// Step the simulation for a while, stopping early once `until` says so. Returns whether it
+// stopped early.
+export function stepFor(simulation: GameSimulation, seconds: number, until?: () => boolean): boolean {
+  for (let frame = 0; frame < toFrames(seconds); frame++) {
+    simulation.step(STEP);
+    if (until?.()) return true;
+  }
+  return false;
+}
+
+// A body on its own, settled onto whatever is under it
+export function createBody(x: number, y: number, colliders: ICollider[]): PhysicsBody {
+  const body = new PhysicsBody(new THREE.Vector3(x, y, 0), colliders);
+  body.update(STEP, { jump: false });
+  return body;
+}
@@ -0,0 +1,68 @@
+// A whole match played out: phases, rounds won by elimination and on time, the halftime
+// side switch and the final result
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { GameSimulation, IRoundEndEvent, ISpawnZone, MatchPhase } from '../src/app/components/simulation';
+import { createFloor, stepFor } from './helpers';
+
+const SPAWN_ZONES: ISpawnZone[] = [
+  { team: 'syntax', min: { x: 8, y: 0 }, max: { x: 12, y: 3.6 } },
+  { team: 'veil', min: { x: -12, y: 0 }, max: { x: -8, y: 3.6 } }
+];
+
+test('a best of three plays out round by round to a winner', () => {
+  const simulation = new GameSimulation({ colliders: [createFloor()], spawnZones: SPAWN_ZONES });
+  const syntax = simulation.addPlayer('syntax-player', undefined, 'syntax');
+  const veil = simulation.addPlayer('veil-player', undefined, 'veil');
+  const rounds: IRoundEndEvent[] = [];
+  simulation.on('roundEnd', event => rounds.push(event));
+  let result: { winner: string | null; scores: Record<string, number> } | null = null;
+  simulation.on('matchEnd', event => { result = event; });
+
+  const match = simulation.startMatch({ rounds: 3, prepTime: 1, actionTime: 5, reviewTime: 1, respawns: false });
+  const reachPhase = (phase: MatchPhase, round: number) =>
+    assert.ok(stepFor(simulation, 10, () => match.phase === phase && match.round === round), `never reached ${phase} ${round}`);
+
+  // Everyone comes back spawn protected at the start of a round
+  const waitOutProtection = () =>
+    assert.ok(stepFor(simulation, 5, () => !syntax.isSpawnProtected() && !veil.isSpawnProtected()), 'protected for good');
+
+  // Round 1 - frozen in their own spawns until the action starts, then Syntax wipes out Veil
+  assert.equal(match.phase, 'prep');
+  assert.ok(syntax.body.getState().position.x > 0 && veil.body.getState().position.x < 0);
+  simulation.setInput('syntax-player', { moveX: 1 });
+  const startX = syntax.body.getState().position.x;
+  stepFor(simulation, 0.5);
+  assert.equal(syntax.body.getState().position.x, startX, 'moved while frozen');
+  simulation.setInput('syntax-player', { moveX: 0 });
+
+  reachPhase('action', 1);
+  waitOutProtection();
+  simulation.applyDamage('veil-player', { amount: 1000, type: 'projectile', sourceId: 'syntax-player' });
+  reachPhase('review', 1);
+  assert.deepEqual(rounds[0], { round: 1, winner: 'syntax', reason: 'elimination', scores: { syntax: 1 } });
+
+  // Round 2 - sides switched at halftime, and Veil takes it on time with more health left
+  reachPhase('prep', 2);
+  assert.ok(match.sidesSwitched);
+  assert.ok(veil.isAlive());
+  assert.ok(syntax.body.getState().position.x < 0 && veil.body.getState().position.x > 0);
+
+  reachPhase('action', 2);
+  waitOutProtection();
+  simulation.applyDamage('syntax-player', { amount: 30, type: 'projectile', sourceId: 'veil-player' });
+  reachPhase('review', 2);
+  assert.deepEqual(rounds[1], { round: 2, winner: 'veil', reason: 'timeout', scores: { syntax: 1, veil: 1 } });
+
+  // Round 3 decides it
+  reachPhase('action', 3);
+  waitOutProtection();
+  simulation.applyDamage('veil-player', { amount: 1000, type: 'projectile', sourceId: 'syntax-player' });
+  assert.ok(stepFor(simulation, 10, () => result !== null), 'the match never ended');
+
+  assert.equal(match.phase, 'ended');
+  assert.equal(match.winner, 'syntax');
+  assert.deepEqual(result, { winner: 'syntax', scores: { syntax: 2, veil: 1 } });
+  assert.equal(syntax.frozen, false);
+});
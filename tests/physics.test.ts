@@ -0,0 +1,240 @@
+// Movement against level geometry: collision, the timing windows that make jumping
+// forgiving - the jump buffer, coyote time and wall jumps - and surfaces that change how
+// the ground moves you
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createBoxCollider, IMovementSurface, PHYSICS, PhysicsBody } from '../src/app/components/physics';
+import { createBody, createFloor, STEP, toFrames } from './helpers';
+
+const HALF_WIDTH = PHYSICS.BODY.WIDTH / 2;
+const SURFACES = PHYSICS.MOVEMENT_SURFACES;
+
+// Floor made of the given surface (plain concrete without one)
+function createSurfaceFloor(surface?: IMovementSurface) {
+  return createBoxCollider({ x: 0, y: -0.25 }, { x: 200, y: 0.5 }, 'surface', 'concrete', surface);
+}
+
+function run(body: PhysicsBody, frames: number, input: Parameters<PhysicsBody['update']>[1]) {
+  for (let frame = 0; frame < frames; frame++) body.update(STEP, input);
+}
+
+// Frame on which the body jumped, pressing jump only on the given frame
+function findJumpFrame(body: PhysicsBody, frames: number, pressFrame: number, moveX: number = 0): number | null {
+  for (let frame = 0; frame < frames; frame++) {
+    body.update(STEP, { jump: frame === pressFrame, moveX });
+    if (body.getEvents().some(event => event.type === 'jump')) return frame;
+  }
+  return null;
+}
+
+test('a falling body lands on the floor and stays there', () => {
+  const body = createBody(0, 5, [createFloor()]);
+  let landed = false;
+  for (let frame = 0; frame < toFrames(2); frame++) {
+    body.update(STEP, { jump: false });
+    landed ||= body.getEvents().some(event => event.type === 'land');
+  }
+
+  const state = body.getState();
+  assert.ok(landed);
+  assert.ok(body.isGrounded());
+  assert.ok(Math.abs(state.position.y) < 1e-6, `feet at ${state.position.y}`);
+  assert.equal(state.velocity.y, 0);
+});
+
+test('walls stop a running body at their face', () => {
+  const wall = createBoxCollider({ x: 5, y: 4 }, { x: 1, y: 8 }, 'wall');
+  const body = createBody(0, 0, [createFloor(), wall]);
+  run(body, toFrames(3), { jump: false, moveX: 1 });
+
+  const x = body.getState().position.x;
+  assert.ok(x <= 4.5 - HALF_WIDTH + 1e-6, `went into the wall to ${x}`);
+  assert.ok(x > 4.5 - HALF_WIDTH - 0.1, `stopped short at ${x}`);
+});
+
+test('ceilings stop a jump at head height', () => {
+  const ceiling = createBoxCollider({ x: 0, y: 5 }, { x: 10, y: 1 }, 'ceiling');
+  const body = createBody(0, 0, [createFloor(), ceiling]);
+  let highest = 0;
+  for (let frame = 0; frame < toFrames(1.5); frame++) {
+    body.update(STEP, { jump: frame < 10 });
+    highest = Math.max(highest, body.getState().position.y);
+  }
+
+  assert.ok(highest > 0, 'never left the ground');
+  assert.ok(highest + PHYSICS.BODY.HEIGHT <= 4.5 + 1e-6, `head reached ${highest + PHYSICS.BODY.HEIGHT}`);
+  assert.ok(body.isGrounded());
+});
+
+test('jump pressed just before landing is buffered until touchdown', () => {
+  const floor = createFloor();
+
+  // How long the fall takes, to press the button relative to it
+  const probe = createBody(0, 1, [floor]);
+  let touchdown = 0;
+  while (!probe.isGrounded()) {
+    probe.update(STEP, { jump: false });
+    touchdown++;
+  }
+
+  const early = toFrames(PHYSICS.JUMP.BUFFER_TIME) - 2;
+  const buffered = findJumpFrame(createBody(0, 1, [floor]), toFrames(1), touchdown - early);
+  assert.ok(buffered !== null && buffered >= touchdown - 1 && buffered <= touchdown + 1, `jumped on frame ${buffered}`);
+
+  const tooEarly = toFrames(PHYSICS.JUMP.BUFFER_TIME) + 6;
+  assert.equal(findJumpFrame(createBody(0, 1, [floor]), toFrames(1), touchdown - tooEarly), null);
+});
+
+test('jump still works for a moment after walking off a ledge', () => {
+  const ledge = createBoxCollider({ x: 0, y: 0.75 }, { x: 4, y: 1.5 }, 'ledge');
+
+  // Frame the body walks off the edge
+  const probe = createBody(1.8, 1.5, [ledge]);
+  let leftGround = 0;
+  while (probe.isGrounded()) {
+    probe.update(STEP, { jump: false, moveX: 1 });
+    leftGround++;
+  }
+
+  const late = toFrames(PHYSICS.JUMP.COYOTE_TIME) - 2;
+  const coyote = findJumpFrame(createBody(1.8, 1.5, [ledge]), toFrames(1), leftGround + late, 1);
+  assert.equal(coyote, leftGround + late);
+
+  const tooLate = toFrames(PHYSICS.JUMP.COYOTE_TIME) + 6;
+  assert.equal(findJumpFrame(createBody(1.8, 1.5, [ledge]), toFrames(1), leftGround + tooLate, 1), null);
+});
+
+test('wall jumps kick away from the wall and ignore steering for a moment', () => {
+  const wall = createBoxCollider({ x: -12, y: 4 }, { x: 1, y: 8 }, 'wall');
+
+  // Slide down the wall, pushing into it, and kick off
+  const wallJump = () => {
+    const body = createBody(-10.9, 7, [wall]);
+    run(body, 30, { jump: false, moveX: -1 });
+    assert.ok(body.getState().wallSliding, 'not sliding on the wall');
+
+    body.update(STEP, { jump: true, moveX: -1 });
+    assert.deepEqual(body.getEvents(), [{ type: 'wallJump', direction: 1 }]);
+    return body;
+  };
+
+  const steering = wallJump();
+  const velocity = steering.getState().velocity;
+  assert.ok(Math.abs(velocity.x - PHYSICS.WALL.JUMP_FORCE_X) < 1e-6, `pushed off at ${velocity.x}`);
+  assert.ok(velocity.y > 0);
+
+  // Pushing back towards the wall does nothing until the lock runs out
+  const coasting = wallJump();
+  const lockFrames = toFrames(PHYSICS.WALL.JUMP_CONTROL_LOCK) - 2;
+  run(steering, lockFrames, { jump: false, moveX: -1 });
+  run(coasting, lockFrames, { jump: false, moveX: 0 });
+  assert.equal(steering.getState().velocity.x, coasting.getState().velocity.x);
+
+  run(steering, toFrames(0.2), { jump: false, moveX: -1 });
+  run(coasting, toFrames(0.2), { jump: false, moveX: 0 });
+  assert.ok(steering.getState().velocity.x < coasting.getState().velocity.x, 'steering never came back');
+});
+
+test('ice is slow to get going and slow to stop', () => {
+  const runAndStop = (surface?: IMovementSurface) => {
+    const body = createBody(0, 0, [createSurfaceFloor(surface)]);
+    run(body, 10, { jump: false, moveX: 1 });
+    const speedAfterTenFrames = body.getState().velocity.x;
+    run(body, toFrames(3), { jump: false, moveX: 1 });
+    const stopFrom = body.getState().position.x;
+    run(body, toFrames(5), { jump: false, moveX: 0 });
+    return { speedAfterTenFrames, slide: body.getState().position.x - stopFrom };
+  };
+
+  const concrete = runAndStop();
+  const ice = runAndStop(SURFACES.ICE);
+  assert.ok(ice.speedAfterTenFrames < concrete.speedAfterTenFrames / 2, `ice ${ice.speedAfterTenFrames}`);
+  assert.ok(ice.slide > concrete.slide * 5, `slid ${ice.slide} on ice, ${concrete.slide} on concrete`);
+});
+
+test('conveyors carry a body standing on them', () => {
+  const body = createBody(0, 0, [createSurfaceFloor(SURFACES.CONVEYOR_LEFT)]);
+  run(body, toFrames(1), { jump: false });
+
+  assert.ok(Math.abs(body.getState().velocity.x - SURFACES.CONVEYOR_LEFT.velocity) < 1e-6);
+  assert.ok(body.getState().position.x < -1);
+});
+
+test('sticky floors slow running and weaken jumps', () => {
+  const runAndJump = (surface?: IMovementSurface) => {
+    const body = createBody(0, 0, [createSurfaceFloor(surface)]);
+    run(body, toFrames(1), { jump: false, moveX: 1 });
+    const speed = body.getState().velocity.x;
+    body.update(STEP, { jump: true });
+    return { speed, jump: body.getState().velocity.y };
+  };
+
+  const concrete = runAndJump();
+  const sticky = runAndJump(SURFACES.STICKY);
+  assert.ok(Math.abs(sticky.speed - concrete.speed * SURFACES.STICKY.speed) < 1e-6, `ran at ${sticky.speed}`);
+  assert.ok(sticky.jump < concrete.jump * 0.7, `jumped at ${sticky.jump}`);
+});
+
+test('jump pads throw a body up, and the landing after never staggers', () => {
+  // Stronger than any pad in the dev level, so coming down would otherwise land hard
+  const launch = PHYSICS.FALL_DAMAGE.HARD_LANDING_SPEED + 3;
+  const pad = createBoxCollider({ x: 0, y: -0.25 }, { x: 2, y: 0.5 }, 'pad', 'metal', { launch });
+  const body = createBody(0, 1, [pad]);
+
+  // Thrown up the moment it lands on the pad
+  let launches = 0;
+  for (let frame = 0; frame < 30 && launches === 0; frame++) {
+    body.update(STEP, { jump: false });
+    assert.ok(body.getEvents().every(event => event.type === 'launch'), 'touched down on the pad');
+    launches = body.getEvents().length;
+  }
+  assert.equal(launches, 1);
+  assert.equal(body.getState().velocity.y, launch);
+
+  // Drift off the pad and come down on the plain ground beside it
+  const landings = [];
+  for (let frame = 0; frame < toFrames(4) && landings.length === 0; frame++) {
+    body.update(STEP, { jump: false, moveX: 1 });
+    landings.push(...body.getEvents().filter(event => event.type === 'land'));
+  }
+
+  assert.equal(landings.length, 1);
+  assert.ok(landings[0].type === 'land' && landings[0].impactSpeed >= PHYSICS.FALL_DAMAGE.HARD_LANDING_SPEED);
+  assert.deepEqual({ ...landings[0], impactSpeed: 0 }, { type: 'land', impactSpeed: 0, hard: false, cushioned: true });
+  assert.equal(body.isStaggered(), false);
+});
+
+// See-through platform with its top at y = 2.5, only solid from above
+const ONE_WAY_PLATFORM = { ...createBoxCollider({ x: 0, y: 2.35 }, { x: 4, y: 0.3 }, 'platform'), oneWay: true };
+
+test('one-way platforms are jumped up through and landed on', () => {
+  const body = createBody(0, 0, [createFloor(), ONE_WAY_PLATFORM]);
+  run(body, 20, { jump: true });
+  run(body, toFrames(2), { jump: false });
+
+  assert.ok(body.isGrounded());
+  assert.equal(body.getState().position.y, 2.5);
+});
+
+test('dropping goes down through a one-way platform onto whatever is below', () => {
+  const body = createBody(0, 2.5, [createFloor(), ONE_WAY_PLATFORM]);
+  assert.equal(body.getState().position.y, 2.5);
+
+  body.update(STEP, { jump: false, drop: true });
+  run(body, toFrames(2), { jump: false });
+
+  assert.ok(body.isGrounded());
+  assert.equal(body.getState().position.y, 0);
+});
+
+test('a platform dropped through is solid again after jetting back above it', () => {
+  const body = createBody(0, 2.5, [createFloor(), ONE_WAY_PLATFORM]);
+  body.update(STEP, { jump: false, drop: true });
+  run(body, 20, { jump: false, jet: true });
+  assert.ok(body.getState().position.y > 2.5, `only got back up to ${body.getState().position.y}`);
+
+  run(body, toFrames(3), { jump: false });
+  assert.ok(body.isGrounded());
+  assert.equal(body.getState().position.y, 2.5);
+});
@@ -0,0 +1,141 @@
+// How the weapons themselves behave in the simulation: beam heat, magazines and reloads,
+// what shots do to the surfaces they hit, and rounds that home in
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as THREE from 'three';
+import { createBoxCollider, IProjectileImpact } from '../src/app/components/physics';
+import { GAME, GameSimulation, IDamageEvent } from '../src/app/components/simulation';
+import { createFloor, stepFor } from './helpers';
+
+const BEAM_SLOT = GAME.PLAYER.DEFAULT_LOADOUT.indexOf('beam');
+const SMART_SLOT = GAME.PLAYER.DEFAULT_LOADOUT.indexOf('smart');
+
+function recordDamage(simulation: GameSimulation): IDamageEvent[] {
+  const damage: IDamageEvent[] = [];
+  simulation.on('damage', event => damage.push(event));
+  return damage;
+}
+
+test('an overheated beam cools off while holstered', () => {
+  const simulation = new GameSimulation({ colliders: [createFloor()], respawnTime: null });
+  const shooter = simulation.addPlayer('shooter', new THREE.Vector3(0, 0, 0));
+  let overheated = false;
+  simulation.on('overheat', () => { overheated = true; });
+
+  simulation.setInput('shooter', { weaponSlot: BEAM_SLOT });
+  stepFor(simulation, 1);
+  const beam = shooter.weapon;
+  assert.equal(beam.definition.id, 'beam');
+
+  simulation.setInput('shooter', { fire: true, aim: { x: 20, y: 3 } });
+  assert.ok(stepFor(simulation, 5, () => overheated), 'never overheated');
+  simulation.setInput('shooter', { fire: false });
+
+  // Put it away for longer than it takes to cool from full, then draw it again
+  simulation.setInput('shooter', { weaponSlot: 0 });
+  stepFor(simulation, 1 / beam.config.beam!.coolingPerSecond + 0.5);
+  assert.equal(beam.heat, 0);
+  assert.equal(beam.overheated, false);
+
+  simulation.setInput('shooter', { weaponSlot: BEAM_SLOT });
+  stepFor(simulation, 1);
+  assert.equal(shooter.weapon, beam);
+  assert.ok(beam.canFire());
+});
+
+test('emptying the magazine reloads it from the reserve, and an empty gun just clicks', () => {
+  const simulation = new GameSimulation({ colliders: [createFloor()], respawnTime: null });
+  const shooter = simulation.addPlayer('shooter', new THREE.Vector3(0, 0, 0));
+  const rifle = shooter.weapon;
+  const events: string[] = [];
+  (['reloadStart', 'reloadComplete', 'dryFire'] as const).forEach(type => simulation.on(type, () => events.push(type)));
+  stepFor(simulation, 0.1);
+
+  // The last round in the magazine starts the reload by itself
+  rifle.ammo = 2;
+  const reserve = rifle.reserve;
+  simulation.setInput('shooter', { fire: true, aim: { x: 20, y: 3 } });
+  assert.ok(stepFor(simulation, 1, () => events.length > 0), 'never reloaded');
+  simulation.setInput('shooter', { fire: false });
+  assert.deepEqual(events, ['reloadStart']);
+  assert.ok(stepFor(simulation, rifle.config.reloadTime + 0.1, () => events.length > 1), 'the reload never finished');
+  assert.deepEqual(events, ['reloadStart', 'reloadComplete']);
+  assert.equal(rifle.ammo, rifle.config.magazineSize);
+  assert.equal(rifle.reserve, reserve - rifle.config.magazineSize);
+
+  // With nothing left to load, each pull clicks once however long it's held
+  events.length = 0;
+  rifle.ammo = 0;
+  rifle.reserve = 0;
+  simulation.setInput('shooter', { fire: true });
+  stepFor(simulation, 0.5);
+  simulation.setInput('shooter', { fire: false });
+  stepFor(simulation, 0.1);
+  simulation.setInput('shooter', { fire: true });
+  stepFor(simulation, 0.5);
+
+  assert.deepEqual(events, ['dryFire', 'dryFire']);
+  assert.equal(rifle.isReloading(), false);
+});
+
+// Record what the shooter's rounds did to the level, firing at the aim point for a moment
+function fireAt(simulation: GameSimulation, aim: { x: number; y: number }): IProjectileImpact[] {
+  const impacts: IProjectileImpact[] = [];
+  const unsubscribe = simulation.on('impact', event => impacts.push(event.impact));
+  simulation.setInput('shooter', { fire: true, aim });
+  stepFor(simulation, 0.05);
+  simulation.setInput('shooter', { fire: false });
+  stepFor(simulation, 1);
+  unsubscribe();
+  return impacts;
+}
+
+test('shots glance off metal at a shallow angle, but stop in it head on', () => {
+  const shootFloor = (aim: { x: number; y: number }) => {
+    const metalFloor = createBoxCollider({ x: 0, y: -0.5 }, { x: 200, y: 1 }, 'floor', 'metal');
+    const simulation = new GameSimulation({ colliders: [metalFloor], respawnTime: null });
+    simulation.addPlayer('shooter', new THREE.Vector3(0, 0, 0));
+    stepFor(simulation, 0.1);
+    return fireAt(simulation, aim);
+  };
+
+  const glancing = shootFloor({ x: 20, y: 0 });
+  assert.equal(glancing[0]?.type, 'ricochet');
+  assert.equal(glancing[0].material, 'metal');
+  assert.deepEqual(shootFloor({ x: 2, y: 0 }).map(impact => impact.type), ['stop']);
+});
+
+test('shots go through a thin pane of glass, but not a thick one', () => {
+  const shootThrough = (thickness: number) => {
+    const pane = createBoxCollider({ x: 4, y: 4 }, { x: thickness, y: 8 }, 'pane', 'glass');
+    const simulation = new GameSimulation({ colliders: [createFloor(), pane], respawnTime: null });
+    simulation.addPlayer('shooter', new THREE.Vector3(0, 0, 0));
+    simulation.addPlayer('target', new THREE.Vector3(8, 0, 0));
+    const damage = recordDamage(simulation);
+    stepFor(simulation, 0.1);
+    return { impacts: fireAt(simulation, { x: 8, y: 3 }).map(impact => impact.type), hit: damage.length > 0 };
+  };
+
+  assert.deepEqual(shootThrough(0.2), { impacts: ['penetrate'], hit: true });
+  assert.deepEqual(shootThrough(1), { impacts: ['stop'], hit: false });
+});
+
+test('smart rifle rounds curve down onto a target the shot would have passed over', () => {
+  const shootFromLedge = (weaponSlot: number) => {
+    const ledge = createBoxCollider({ x: 0, y: 1.5 }, { x: 4, y: 3 }, 'ledge');
+    const simulation = new GameSimulation({ colliders: [createFloor(), ledge], respawnTime: null });
+    simulation.addPlayer('shooter', new THREE.Vector3(0, 3, 0));
+    simulation.addPlayer('target', new THREE.Vector3(12, 0, 0));
+    const damage = recordDamage(simulation);
+    simulation.setInput('shooter', { weaponSlot });
+    stepFor(simulation, 1);
+
+    // Level with the shooter's muzzle, well above the target's head
+    fireAt(simulation, { x: 20, y: 6 });
+    return damage.some(event => event.playerId === 'target');
+  };
+
+  assert.equal(shootFromLedge(SMART_SLOT), true);
+  assert.equal(shootFromLedge(GAME.PLAYER.DEFAULT_LOADOUT.indexOf('rifle')), false);
+});